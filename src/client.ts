@@ -2,6 +2,8 @@ import { Cuimp } from './cuimp'
 import { runBinary, runBinaryStream } from './runner'
 import type {
   CuimpInstance,
+  CuimpInterceptedResponse,
+  CuimpInterceptors,
   CuimpRequestConfig,
   CuimpResponse,
   CuimpStreamHandlers,
@@ -10,13 +12,39 @@ import type {
   CookieJarOption,
   QueryParams,
   RequestHeaders,
-  ParsedBody,
   JSONValue,
+  CuimpStreamBody,
+  CuimpUploadProgress,
+  CuimpDownloadOptions,
+  CuimpDownloadResult,
+  CuimpReadableResponse,
+  BinaryInfo,
 } from './types/cuimpTypes'
-import type { RunResult, RunStreamResult } from './types/runTypes'
+import type { RunResult, RunStdin, RunStreamResult } from './types/runTypes'
 import { CurlError, CurlExitCode } from './types/curlErrors'
+import { CuimpHttpError } from './types/cuimpErrors'
 import { CookieJar } from './helpers/cookieJar'
-import { createHttpResponseStreamParser, parseHttpResponse } from './helpers/parser'
+import {
+  buildRedirectChain,
+  createHttpResponseStreamParser,
+  extractResponseMetrics,
+  parseHttpResponse,
+} from './helpers/parser'
+import { MAX_ARGV_BODY_BYTES, METRICS_WRITE_OUT } from './constants/requestConstants'
+import { InterceptorManager, runInterceptors } from './helpers/interceptors'
+import { getRetryDelay, resolveRetryOptions, sleep } from './helpers/retry'
+import { MultipartBody, isMultipartData } from './helpers/multipart'
+import { Readable } from 'stream'
+import { DownloadFile, parseContentRangeTotal } from './helpers/download'
+import { cuimpFetch } from './helpers/fetch'
+import { ResponseBodyStream, toWebStream } from './helpers/bodyStream'
+import { CuimpEventSource, type CuimpEventSourceOptions } from './helpers/sse'
+import type { ImpersonateCommand } from './helpers/impersonate'
+import { parseNdjson } from './helpers/ndjson'
+import { decodeBody } from './helpers/decode'
+import { validateResponse } from './helpers/validate'
+import { mergeConfig, mergeHeaders } from './helpers/mergeConfig'
+import { parseImpersonateTarget } from './helpers/descriptorNormalize'
 
 function joinURL(base?: string, path?: string): string | undefined {
   if (!path) return base
@@ -45,17 +73,83 @@ function normalizeHeaders(h?: RequestHeaders): Record<string, string> {
   return out
 }
 
-function tryParseBody(buf: Buffer, headers: Record<string, string>): ParsedBody {
-  // Headers are normalized to lowercase, so direct lookup is safe
-  const val = headers['content-type'] || ''
-  if (val && val.toLowerCase().includes('application/json')) {
-    try {
-      return JSON.parse(buf.toString('utf8')) as JSONValue
-    } catch {
-      /* fallthrough */
+// Chunk size used to report upload progress for in-memory bodies
+const UPLOAD_CHUNK_SIZE = 64 * 1024
+
+/**
+ * Whether a body can be passed as a command-line argument. Buffers (possibly not UTF-8),
+ * large bodies (argv limits), values curl would read as "@file", text with NUL bytes
+ * (spawn rejects them in argv), and every body on Windows (cmd escaping) are written to
+ * stdin instead.
+ */
+function isArgvSafeBody(body: string | Buffer): body is string {
+  return (
+    typeof body === 'string' &&
+    process.platform !== 'win32' &&
+    Buffer.byteLength(body) <= MAX_ARGV_BODY_BYTES &&
+    !body.startsWith('@') &&
+    !body.includes('\0')
+  )
+}
+
+function isSuccessStatus(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+function isWebReadableStream(data: unknown): data is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && data instanceof ReadableStream
+}
+
+function isStreamBody(data: unknown): data is CuimpStreamBody {
+  if (data instanceof Readable || isWebReadableStream(data)) return true
+  return typeof data === 'object' && data !== null && Symbol.asyncIterator in data
+}
+
+/**
+ * Stream bodies (and multipart bodies with stream parts) can only be sent once
+ */
+function isReplayableBody(data: CuimpRequestConfig['data']): boolean {
+  if (isStreamBody(data)) return false
+  return !(data instanceof MultipartBody) || data.replayable
+}
+
+async function* readWebStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Re-yields the body while reporting how many bytes curl has read from stdin
+ */
+async function* trackUploadProgress(
+  data: RunStdin,
+  total: number | undefined,
+  onProgress: (progress: CuimpUploadProgress) => void
+): AsyncGenerator<Uint8Array> {
+  let loaded = 0
+  if (typeof data === 'string' || Buffer.isBuffer(data)) {
+    const buf = typeof data === 'string' ? Buffer.from(data) : data
+    for (let offset = 0; offset < buf.length; offset += UPLOAD_CHUNK_SIZE) {
+      const chunk = buf.subarray(offset, offset + UPLOAD_CHUNK_SIZE)
+      yield chunk
+      loaded += chunk.length
+      onProgress({ loaded, total })
     }
+    return
+  }
+  for await (const chunk of data) {
+    yield chunk
+    loaded += chunk.length
+    onProgress({ loaded, total })
   }
-  return buf.toString('utf8')
 }
 
 function normalizeProxyUrl(proxy: string): string {
@@ -104,16 +198,43 @@ function getProxyFromEnvironment(): string | undefined {
 export class CuimpHttp implements CuimpInstance {
   private cookieJar: CookieJar | null = null
 
+  /**
+   * Request/response interceptors, applied in registration order
+   */
+  readonly interceptors: CuimpInterceptors = {
+    request: new InterceptorManager<CuimpRequestConfig>(),
+    response: new InterceptorManager<CuimpInterceptedResponse>(),
+  }
+
+  // False for child clients, which share their parent's jar
+  private ownsCookieJar = true
+
   constructor(
     private core: Cuimp,
     private defaults: Partial<CuimpRequestConfig> = {},
-    cookieJarOption?: CookieJarOption
+    cookieJarOption?: CookieJarOption | CookieJar
   ) {
-    if (cookieJarOption) {
+    if (cookieJarOption instanceof CookieJar) {
+      this.cookieJar = cookieJarOption
+      this.ownsCookieJar = false
+    } else if (cookieJarOption) {
       this.cookieJar = new CookieJar(cookieJarOption)
     }
   }
 
+  /**
+   * Creates a child client whose defaults are this client's defaults merged with
+   * `overrides` (headers/params merged, extraCurlArgs appended, other options replaced).
+   * The child shares this client's binary and cookie jar but has its own interceptors.
+   */
+  create(overrides: Partial<CuimpRequestConfig> = {}): CuimpHttp {
+    return new CuimpHttp(
+      this.core,
+      mergeConfig(this.defaults, overrides),
+      this.cookieJar ?? undefined
+    )
+  }
+
   /**
    * Get the cookie jar instance (if enabled)
    */
@@ -135,7 +256,8 @@ export class CuimpHttp implements CuimpInstance {
    */
   destroy(): void {
     if (this.cookieJar) {
-      this.cookieJar.destroy()
+      // A child client only detaches from the shared jar
+      if (this.ownsCookieJar) this.cookieJar.destroy()
       this.cookieJar = null
     }
   }
@@ -147,7 +269,8 @@ export class CuimpHttp implements CuimpInstance {
     url: string
     method: Method
     normHeaders: Record<string, string>
-    stdinData?: string | Buffer
+    stdinData?: RunStdin
+    impersonateCommand?: ImpersonateCommand
   }> {
     const method: Method = (config.method || 'GET').toUpperCase() as Method
 
@@ -155,18 +278,30 @@ export class CuimpHttp implements CuimpInstance {
     const rawUrl = config.url
     if (!rawUrl) throw new Error('URL is required')
 
-    const qs = encodeParams(config.params ?? this.defaults.params)
+    const qs = encodeParams({ ...this.defaults.params, ...config.params })
     const url = joinURL(urlBase, rawUrl) + qs
 
     if (!url) throw new Error('URL is required')
 
-    const bin = await this.core.ensurePath()
-
-    const headers = {
-      ...(this.defaults.headers ?? {}),
-      ...(config.headers ?? {}),
+    const impersonate = config.impersonate ?? this.defaults.impersonate
+    let bin: string
+    let binaryInfo: BinaryInfo | undefined
+    if (impersonate) {
+      binaryInfo = await this.core.ensureBinaryFor(
+        typeof impersonate === 'string' ? parseImpersonateTarget(impersonate) : impersonate
+      )
+      bin = binaryInfo.binaryPath
+    } else {
+      bin = await this.core.ensurePath()
+      binaryInfo = this.core.getBinaryInfo()
     }
-    const normHeaders = normalizeHeaders(headers)
+    // Probed once while resolving the binary; the runner falls back to the wrapper otherwise
+    const impersonateCommand =
+      binaryInfo?.impersonateBinary && binaryInfo.impersonateTarget
+        ? { binaryPath: binaryInfo.impersonateBinary, target: binaryInfo.impersonateTarget }
+        : undefined
+
+    const normHeaders = normalizeHeaders(mergeHeaders(this.defaults.headers, config.headers))
 
     // Build args for curl-impersonate binary
     const args: string[] = []
@@ -197,61 +332,94 @@ export class CuimpHttp implements CuimpInstance {
       args.push('-H', `${k}: ${v}`)
     }
 
-    // Body - On Windows, use stdin to avoid command-line escaping issues with special characters
-    const isWindows = process.platform === 'win32'
-    let stdinData: string | Buffer | undefined
+    // Body - small text bodies go on the command line, everything else through stdin
+    // (also when upload progress is tracked, since it counts what curl reads from stdin)
+    let stdinData: RunStdin | undefined
+    const pushBody = (body: string | Buffer, argFlag = '--data-binary') => {
+      if (!config.onUploadProgress && isArgvSafeBody(body)) {
+        args.push(argFlag, body)
+      } else {
+        stdinData = body
+        args.push('--data-binary', '@-')
+      }
+    }
 
     if (config.data !== undefined && config.data !== null) {
       if (Buffer.isBuffer(config.data)) {
-        if (isWindows) {
-          stdinData = config.data
-          args.push('--data-binary', '@-')
-        } else {
-          args.push('--data-binary', config.data.toString('utf8'))
-        }
+        pushBody(config.data)
       } else if (config.data instanceof URLSearchParams) {
-        const urlEncodedData = config.data.toString()
-        if (isWindows) {
-          stdinData = urlEncodedData
-          args.push('--data-binary', '@-')
-        } else {
-          args.push('--data', urlEncodedData)
-        }
+        pushBody(config.data.toString(), '--data')
         if (!Object.keys(normHeaders).some(h => h.toLowerCase() === 'content-type')) {
           args.push('-H', 'Content-Type: application/x-www-form-urlencoded')
         }
-      } else if (typeof config.data === 'string') {
-        if (isWindows) {
-          stdinData = config.data
-          args.push('--data-binary', '@-')
+      } else if (isMultipartData(config.data)) {
+        // Generated body (binary-safe, supports per-part headers) sent through stdin
+        const multipart =
+          config.data instanceof MultipartBody ? config.data : MultipartBody.from(config.data)
+        const hasHeader = (name: string) =>
+          Object.keys(normHeaders).some(h => h.toLowerCase() === name)
+        if (multipart.streaming) {
+          // File and stream parts are read as curl consumes them. Browsers always send a
+          // Content-Length, so only stream parts of unknown length fall back to a chunked
+          // upload (-T implies PUT, the explicit -X keeps the requested method)
+          const length = await multipart.contentLength()
+          stdinData = multipart.encode()
+          if (length !== undefined) {
+            args.push('--data-binary', '@-')
+            if (!hasHeader('content-length')) args.push('-H', `Content-Length: ${length}`)
+          } else {
+            args.push('-T', '-')
+            if (method === 'GET') args.push('-X', 'GET')
+          }
         } else {
-          args.push('--data-binary', config.data)
+          stdinData = await multipart.toBuffer()
+          args.push('--data-binary', '@-')
+        }
+        if (!hasHeader('content-type')) {
+          args.push('-H', `Content-Type: ${multipart.contentType}`)
+        }
+        // curl adds Expect: 100-continue to large uploads; browsers never send it
+        if (!hasHeader('expect')) args.push('-H', 'Expect:')
+      } else if (isStreamBody(config.data)) {
+        // Upload from stdin as it is read (chunked when the size is unknown);
+        // -T implies PUT, the explicit -X keeps the requested method
+        stdinData = isWebReadableStream(config.data) ? readWebStream(config.data) : config.data
+        args.push('-T', '-')
+        if (method === 'GET') args.push('-X', 'GET')
+        if (!Object.keys(normHeaders).some(h => h.toLowerCase() === 'content-type')) {
+          args.push('-H', 'Content-Type: application/octet-stream')
         }
+      } else if (typeof config.data === 'string') {
+        pushBody(config.data)
       } else {
         // JSON
-        const body = JSON.stringify(config.data)
-        if (isWindows) {
-          stdinData = body
-          args.push('--data-binary', '@-')
-        } else {
-          args.push('--data-binary', body)
-        }
+        pushBody(JSON.stringify(config.data))
         if (!Object.keys(normHeaders).some(h => h.toLowerCase() === 'content-type')) {
           args.push('-H', 'Content-Type: application/json')
         }
       }
     }
 
+    if (stdinData !== undefined && config.onUploadProgress) {
+      const contentLength = Object.entries(normHeaders).find(
+        ([h]) => h.toLowerCase() === 'content-length'
+      )?.[1]
+      const total =
+        typeof stdinData === 'string' || Buffer.isBuffer(stdinData)
+          ? Buffer.byteLength(stdinData)
+          : contentLength !== undefined
+            ? Number(contentLength)
+            : undefined
+      stdinData = trackUploadProgress(stdinData, total, config.onUploadProgress)
+    }
+
     // Cookie jar arguments (if enabled)
     if (this.cookieJar) {
       args.push(...this.cookieJar.getCurlArgs())
     }
 
-    // Extra curl arguments (from config or defaults)
-    const extraArgs = config.extraCurlArgs ?? this.defaults.extraCurlArgs
-    if (extraArgs && extraArgs.length > 0) {
-      args.push(...extraArgs)
-    }
+    // Extra curl arguments (defaults first, then the request's own)
+    args.push(...(this.defaults.extraCurlArgs ?? []), ...(config.extraCurlArgs ?? []))
 
     // Add --fail-with-body by default to get response body on 4xx/5xx
     // Only add if not already present and --fail is not present
@@ -259,6 +427,11 @@ export class CuimpHttp implements CuimpInstance {
       args.push('--fail-with-body')
     }
 
+    // Report timings/connection metrics on stderr unless the caller uses --write-out itself
+    if (!args.some(a => a === '-w' || a === '--write-out' || a.startsWith('--write-out='))) {
+      args.push('--write-out', METRICS_WRITE_OUT)
+    }
+
     // Always capture headers: use -i to include headers in output, then split.
     args.push('-i')
 
@@ -276,11 +449,84 @@ export class CuimpHttp implements CuimpInstance {
       method,
       normHeaders,
       stdinData,
+      impersonateCommand,
     }
   }
 
-  async request<T = JSONValue>(config: CuimpRequestConfig): Promise<CuimpResponse<T>> {
-    const { bin, args, command, url, method, normHeaders, stdinData } =
+  /**
+   * Runs request interceptors, executes the request, then runs response interceptors
+   */
+  private async intercept<R extends CuimpInterceptedResponse>(
+    config: CuimpRequestConfig,
+    dispatch: (config: CuimpRequestConfig) => Promise<R>
+  ): Promise<R> {
+    const dispatched = runInterceptors(this.interceptors.request, Promise.resolve(config)).then(
+      dispatch
+    )
+    return (await runInterceptors<CuimpInterceptedResponse>(
+      this.interceptors.response,
+      dispatched
+    )) as R
+  }
+
+  async request<T = JSONValue>(config: CuimpRequestConfig<T>): Promise<CuimpResponse<T>> {
+    const response = await this.intercept(config, c => this.dispatchRequest(c))
+    return response as CuimpResponse<T>
+  }
+
+  /**
+   * Executes the request, retrying according to the retry policy
+   */
+  private async dispatchRequest(config: CuimpRequestConfig): Promise<CuimpResponse<unknown>> {
+    const retry = isReplayableBody(config.data)
+      ? resolveRetryOptions(config.retry ?? this.defaults.retry)
+      : null
+    const method = (config.method || 'GET').toUpperCase() as Method
+
+    for (let attempt = 1; ; attempt++) {
+      let response: CuimpResponse<unknown> | undefined
+      let error: unknown
+      try {
+        response = await this.executeRequest(config)
+      } catch (err) {
+        error = err
+      }
+
+      const delay = retry
+        ? await getRetryDelay(retry, { attempt, method, config, response, error })
+        : null
+
+      if (delay === null) {
+        if (response) {
+          response.attempts = attempt
+          const validateStatus = this.validateStatusFor(config)
+          if (validateStatus && !validateStatus(response.status)) {
+            throw new CuimpHttpError(response)
+          }
+          if (config.validate) {
+            await validateResponse(config.validate, response)
+          }
+          return response
+        }
+        throw error
+      }
+
+      await sleep(delay, config.signal)
+    }
+  }
+
+  /**
+   * Status check for a call: the per-call validateStatus, else the client default, else
+   * 2xx only (axios semantics). null accepts every status.
+   */
+  private validateStatusFor(config: CuimpRequestConfig): ((status: number) => boolean) | null {
+    const validateStatus =
+      config.validateStatus !== undefined ? config.validateStatus : this.defaults.validateStatus
+    return validateStatus === undefined ? isSuccessStatus : validateStatus
+  }
+
+  private async executeRequest(config: CuimpRequestConfig): Promise<CuimpResponse<unknown>> {
+    const { bin, args, command, url, method, normHeaders, stdinData, impersonateCommand } =
       await this.buildRequestParts(config)
 
     // Execute
@@ -288,8 +534,11 @@ export class CuimpHttp implements CuimpInstance {
       timeout: config.timeout ?? this.defaults.timeout,
       signal: config.signal,
       stdin: stdinData,
+      impersonate: impersonateCommand,
     })
 
+    const { timings, meta, stderr: stderrBuf } = extractResponseMetrics(result.stderr)
+
     // Check exit code - but for HTTP_RETURNED_ERROR (22), we may still have a valid response body
     const stdoutBuf = result.stdout
     const hasHttpResponse =
@@ -304,14 +553,30 @@ export class CuimpHttp implements CuimpInstance {
         // Continue to parse the response below - don't throw
       } else {
         // For other errors or when there's no valid HTTP response, throw
-        const stderr = result.stderr.toString('utf8')
+        const stderr = stderrBuf.toString('utf8')
         throw new CurlError(exitCode as CurlExitCode, stderr)
       }
     }
 
     // Parse HTTP response
-    const { status, statusText, headers: respHeaders, body: rawBody } = parseHttpResponse(stdoutBuf)
-    const parsed = tryParseBody(rawBody, respHeaders) as T
+    const {
+      status,
+      statusText,
+      headers: respHeaders,
+      body: rawBody,
+      redirects: redirectBlocks,
+    } = parseHttpResponse(stdoutBuf)
+    const validateStatus = this.validateStatusFor(config)
+    const parsed = decodeBody(rawBody, respHeaders.get('content-type'), {
+      responseType: config.responseType ?? this.defaults.responseType,
+      jsonReviver: config.jsonReviver ?? this.defaults.jsonReviver,
+      // Rejected statuses keep their text body so they still surface as CuimpHttpError
+      jsonParseError:
+        validateStatus && !validateStatus(status)
+          ? 'fallback'
+          : (config.jsonParseError ?? this.defaults.jsonParseError),
+    })
+    const { redirects, url: finalUrl } = buildRedirectChain(url, redirectBlocks)
 
     return {
       status,
@@ -319,6 +584,10 @@ export class CuimpHttp implements CuimpInstance {
       headers: respHeaders,
       data: parsed,
       rawBody,
+      url: finalUrl,
+      redirects,
+      timings,
+      meta,
       request: {
         url,
         method,
@@ -332,7 +601,17 @@ export class CuimpHttp implements CuimpInstance {
     config: CuimpRequestConfig,
     handlers: CuimpStreamHandlers = {}
   ): Promise<CuimpStreamResponse> {
-    const { bin, args, command, url, method, normHeaders, stdinData } =
+    return this.intercept(config, c => this.dispatchStream(c, handlers))
+  }
+
+  private async dispatchStream(
+    config: CuimpRequestConfig,
+    handlers: CuimpStreamHandlers & {
+      /** Like onHeaders, with the request details (stream() runs interceptors on it) */
+      onResponseHeaders?: (response: CuimpStreamResponse) => Promise<void>
+    }
+  ): Promise<CuimpStreamResponse> {
+    const { bin, args, command, url, method, normHeaders, stdinData, impersonateCommand } =
       await this.buildRequestParts(config)
 
     const previewLimit = 500
@@ -345,8 +624,10 @@ export class CuimpHttp implements CuimpInstance {
 
     const parser = createHttpResponseStreamParser({
       onHeaders: async info => {
+        const { redirects, url: finalUrl } = buildRedirectChain(url, parser.redirects)
+        const headersInfo = { ...info, url: finalUrl, redirects }
         responseHeaders = {
-          ...info,
+          ...headersInfo,
           request: {
             url,
             method,
@@ -355,7 +636,10 @@ export class CuimpHttp implements CuimpInstance {
           },
         }
         if (handlers.onHeaders) {
-          await handlers.onHeaders(info)
+          await handlers.onHeaders(headersInfo)
+        }
+        if (handlers.onResponseHeaders) {
+          await handlers.onResponseHeaders(responseHeaders)
         }
       },
       onBody: async chunk => {
@@ -375,6 +659,7 @@ export class CuimpHttp implements CuimpInstance {
         timeout: config.timeout ?? this.defaults.timeout,
         signal: config.signal,
         stdin: stdinData,
+        impersonate: impersonateCommand,
         onStdout: async chunk => {
           if (previewSize < previewLimit) {
             const remaining = previewLimit - previewSize
@@ -403,6 +688,21 @@ export class CuimpHttp implements CuimpInstance {
       throw err
     }
 
+    const { timings, meta, stderr: stderrBuf } = extractResponseMetrics(result.stderr)
+
+    const exitCode: CurlExitCode | null = result.exitCode
+    const failed =
+      exitCode !== null &&
+      exitCode !== CurlExitCode.OK &&
+      exitCode !== CurlExitCode.HTTP_RETURNED_ERROR
+    if (failed) {
+      const err = new CurlError(exitCode, stderrBuf.toString('utf8'))
+      if (handlers.onError) {
+        await handlers.onError(err)
+      }
+      throw err
+    }
+
     if (!responseHeaders) {
       const previewText = Buffer.concat(previewChunks).toString('utf8')
       const err = new Error(`No HTTP response found:\n${previewText}`)
@@ -414,23 +714,11 @@ export class CuimpHttp implements CuimpInstance {
 
     const finalResponse: CuimpStreamResponse = responseHeaders
 
-    const exitCode: CurlExitCode | null = result.exitCode
-    if (exitCode !== null && exitCode !== CurlExitCode.OK) {
-      if (exitCode === CurlExitCode.HTTP_RETURNED_ERROR) {
-        // continue
-      } else {
-        const stderr = result.stderr.toString('utf8')
-        const err = new CurlError(exitCode as CurlExitCode, stderr)
-        if (handlers.onError) {
-          await handlers.onError(err)
-        }
-        throw err
-      }
-    }
-
     if (collectBody) {
       finalResponse.rawBody = Buffer.concat(bodyChunks)
     }
+    finalResponse.timings = timings
+    finalResponse.meta = meta
 
     if (handlers.onEnd) {
       await handlers.onEnd(finalResponse)
@@ -439,49 +727,303 @@ export class CuimpHttp implements CuimpInstance {
     return finalResponse
   }
 
+  /**
+   * Starts a request and resolves as soon as the final response headers arrive, with the
+   * body as a Node Readable. curl's output is paused while the consumer is slow, so the
+   * body can be piped into files, parsers or HTTP responses with stream.pipeline().
+   * Errors after the headers are emitted on the body stream.
+   *
+   * Response interceptors run on the status and headers before this resolves (the body has
+   * not been read yet): the caller gets what they return, and a throw rejects the call and
+   * stops the transfer.
+   */
+  stream(config: CuimpRequestConfig): Promise<CuimpReadableResponse> {
+    const abort = new AbortController()
+    const onAbort = () => abort.abort(config.signal?.reason)
+    if (config.signal?.aborted) onAbort()
+    config.signal?.addEventListener('abort', onAbort, { once: true })
+    const body = new ResponseBodyStream(() => abort.abort())
+    const toWeb = () => toWebStream(body)
+    const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)))
+
+    return new Promise((resolve, reject) => {
+      let responded = false
+      // Set once the response reached the interceptors, so their own throw skips them
+      let intercepted = false
+
+      runInterceptors(
+        this.interceptors.request,
+        Promise.resolve({ ...config, signal: abort.signal })
+      )
+        .then(c =>
+          this.dispatchStream(c, {
+            onResponseHeaders: async response => {
+              intercepted = true
+              const result = await runInterceptors<CuimpInterceptedResponse>(
+                this.interceptors.response,
+                Promise.resolve(response)
+              ).catch((error: unknown) => {
+                abort.abort()
+                throw error
+              })
+              responded = true
+              resolve({ ...(result as CuimpStreamResponse), body, toWeb })
+            },
+            onData: chunk => body.write(chunk),
+          })
+        )
+        .then(
+          () => body.push(null),
+          async (error: unknown) => {
+            if (responded) {
+              if (!body.destroyed) body.destroy(toError(error))
+              return
+            }
+            if (intercepted) {
+              reject(toError(error))
+              return
+            }
+            // Failures before the response go through the interceptors' error handlers,
+            // which may recover with a response (its body is empty)
+            try {
+              const result = await runInterceptors<CuimpInterceptedResponse>(
+                this.interceptors.response,
+                Promise.reject(toError(error))
+              )
+              body.push(null)
+              resolve({ ...(result as CuimpStreamResponse), body, toWeb })
+            } catch (interceptedError) {
+              reject(toError(interceptedError))
+            }
+          }
+        )
+        .finally(() => config.signal?.removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * fetch()-compatible request: resolves with a WHATWG Response once headers arrive,
+   * with the body streamed from curl (see cuimpFetch)
+   */
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    return cuimpFetch(this, input, init)
+  }
+
+  /**
+   * Streams a newline-delimited JSON (NDJSON / JSON Lines) response, yielding each line's
+   * value as it arrives. curl is paused while the consumer is busy, and leaving the loop
+   * early stops the transfer. Rejected statuses throw CuimpHttpError; an invalid line
+   * throws CuimpParseError with its line number.
+   */
+  async *ndjson<T = JSONValue>(config: CuimpRequestConfig): AsyncGenerator<T> {
+    const validateStatus = this.validateStatusFor(config)
+    const abort = new AbortController()
+    const onAbort = () => abort.abort(config.signal?.reason)
+    if (config.signal?.aborted) onAbort()
+    config.signal?.addEventListener('abort', onAbort, { once: true })
+    const body = new ResponseBodyStream(() => abort.abort())
+
+    let rejected = false
+    const errorChunks: Buffer[] = []
+    // An Accept from the call or the client defaults (any casing) wins over the NDJSON one
+    const hasAccept = [this.defaults.headers, config.headers].some(headers =>
+      Object.keys(headers ?? {}).some(name => name.toLowerCase() === 'accept')
+    )
+
+    this.requestStream(
+      {
+        ...config,
+        headers: hasAccept
+          ? config.headers
+          : { Accept: 'application/x-ndjson, application/jsonl', ...config.headers },
+        signal: abort.signal,
+      },
+      {
+        onHeaders: info => {
+          rejected = !!validateStatus && !validateStatus(info.status)
+        },
+        onData: chunk => {
+          if (!rejected) return body.write(chunk)
+          errorChunks.push(chunk)
+        },
+      }
+    )
+      .then(
+        response => {
+          if (!rejected) {
+            body.push(null)
+            return
+          }
+          const rawBody = Buffer.concat(errorChunks)
+          body.destroy(
+            new CuimpHttpError({
+              ...response,
+              data: decodeBody(rawBody, response.headers.get('content-type')),
+              rawBody,
+            })
+          )
+        },
+        (error: unknown) => {
+          if (!body.destroyed) {
+            body.destroy(error instanceof Error ? error : new Error(String(error)))
+          }
+        }
+      )
+      .finally(() => config.signal?.removeEventListener('abort', onAbort))
+
+    try {
+      yield* parseNdjson<T>(body)
+    } finally {
+      body.destroy()
+    }
+  }
+
+  /**
+   * Opens a Server-Sent Events stream (see CuimpEventSource). The connection has no
+   * timeout unless one is passed explicitly.
+   */
+  eventSource(url: string, options: CuimpEventSourceOptions = {}): CuimpEventSource {
+    return new CuimpEventSource(this, url, { ...options, timeout: options.timeout ?? 0 })
+  }
+
+  /**
+   * Downloads the response body straight to disk. Data is written to `<destPath>.part`,
+   * which is renamed to destPath once complete (and checksum-verified, if requested).
+   * Rejected statuses (2xx only by default) throw CuimpHttpError and leave destPath untouched.
+   * On failure the part file is removed, unless `resume` is set so a later call can continue it.
+   */
+  async download(
+    url: string,
+    destPath: string,
+    options: CuimpDownloadOptions = {}
+  ): Promise<CuimpDownloadResult> {
+    const { resume, onProgress, checksum, ...config } = options
+    const file = new DownloadFile(destPath, {
+      resume,
+      algorithm: checksum ? (checksum.algorithm ?? 'sha256') : undefined,
+    })
+    const offset = await file.prepare()
+    const headers = offset > 0 ? { ...config.headers, Range: `bytes=${offset}-` } : config.headers
+    const validateStatus = this.validateStatusFor(config)
+
+    let mode = 'file' as 'file' | 'complete' | 'error'
+    let total: number | undefined
+    const errorChunks: Buffer[] = []
+    const startedAt = Date.now()
+
+    try {
+      const response = await this.requestStream(
+        { ...config, url, headers },
+        {
+          onHeaders: async info => {
+            if (offset > 0 && info.status === 416) {
+              // Range starts at the end of the file: the part is already complete
+              const remoteSize = parseContentRangeTotal(info.headers.get('content-range'))
+              mode = remoteSize === undefined || remoteSize === offset ? 'complete' : 'error'
+              return
+            }
+            if (validateStatus && !validateStatus(info.status)) {
+              mode = 'error'
+              return
+            }
+            const append = offset > 0 && info.status === 206
+            await file.open(append)
+            const contentLength = info.headers.get('content-length')
+            total = append
+              ? parseContentRangeTotal(info.headers.get('content-range'))
+              : contentLength !== undefined
+                ? Number(contentLength)
+                : undefined
+          },
+          onData: async chunk => {
+            if (mode === 'error') {
+              errorChunks.push(chunk)
+              return
+            }
+            if (mode !== 'file') return
+            await file.write(chunk)
+            if (onProgress) {
+              const elapsed = (Date.now() - startedAt) / 1000
+              onProgress({
+                loaded: file.offset + file.written,
+                total,
+                rate: elapsed > 0 ? Math.round(file.written / elapsed) : 0,
+              })
+            }
+          },
+        }
+      )
+
+      if (mode === 'error') {
+        const rawBody = Buffer.concat(errorChunks)
+        throw new CuimpHttpError({
+          ...response,
+          data: decodeBody(rawBody, response.headers.get('content-type')),
+          rawBody,
+        })
+      }
+
+      const digest = await file.commit(checksum?.expected)
+      return {
+        path: destPath,
+        size: file.offset + file.written,
+        status: response.status,
+        headers: response.headers,
+        url: response.url,
+        resumed: file.offset > 0,
+        checksum: digest,
+        timings: response.timings,
+        meta: response.meta,
+      }
+    } catch (error) {
+      await file.discard(!!resume)
+      throw error
+    }
+  }
+
   // Shorthand methods
   get<T = JSONValue>(
     url: string,
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, method: 'GET' })
   }
   delete<T = JSONValue>(
     url: string,
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, method: 'DELETE' })
   }
   head<T = JSONValue>(
     url: string,
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, method: 'HEAD' })
   }
   options<T = JSONValue>(
     url: string,
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, method: 'OPTIONS' })
   }
   post<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, data, method: 'POST' })
   }
   put<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, data, method: 'PUT' })
   }
   patch<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'> = {}
+    config: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'> = {}
   ): Promise<CuimpResponse<T>> {
     return this.request<T>({ ...config, url, data, method: 'PATCH' })
   }
@@ -5,3 +5,105 @@ export const ARCHITECTURE_LIST = ['x64', 'arm64', 'arm']
 export const PLATFORM_LIST = ['linux', 'windows', 'macos', 'ios', 'android']
 
 export const LIB_URL = 'https://api.github.com/repos/lexiforest/curl-impersonate'
+
+/**
+ * Browser targets shipped by curl-impersonate releases, newest release first. Used to pick
+ * the release for a requested browser version when the latest release no longer ships it
+ * or its target list cannot be fetched.
+ */
+export const RELEASE_TARGETS: ReadonlyArray<{ release: string; targets: readonly string[] }> = [
+  {
+    release: 'v1.2.2',
+    targets: [
+      'chrome99',
+      'chrome100',
+      'chrome101',
+      'chrome104',
+      'chrome107',
+      'chrome110',
+      'chrome116',
+      'chrome119',
+      'chrome120',
+      'chrome123',
+      'chrome124',
+      'chrome131',
+      'chrome133a',
+      'chrome136',
+      'chrome142',
+      'chrome99_android',
+      'chrome131_android',
+      'edge99',
+      'edge101',
+      'firefox133',
+      'firefox135',
+      'firefox145',
+      'safari153',
+      'safari155',
+      'safari170',
+      'safari172_ios',
+      'safari180',
+      'safari180_ios',
+      'safari184',
+      'safari184_ios',
+      'safari260',
+      'safari260_ios',
+      'safari2601',
+    ],
+  },
+  {
+    release: 'v1.0.0',
+    targets: [
+      'chrome99',
+      'chrome100',
+      'chrome101',
+      'chrome104',
+      'chrome107',
+      'chrome110',
+      'chrome116',
+      'chrome119',
+      'chrome120',
+      'chrome123',
+      'chrome124',
+      'chrome131',
+      'chrome133a',
+      'chrome136',
+      'chrome99_android',
+      'chrome131_android',
+      'edge99',
+      'edge101',
+      'firefox133',
+      'firefox135',
+      'safari153',
+      'safari155',
+      'safari170',
+      'safari172_ios',
+      'safari180',
+      'safari180_ios',
+      'safari184',
+      'safari184_ios',
+    ],
+  },
+  {
+    release: 'v0.6.1',
+    targets: [
+      'chrome99',
+      'chrome100',
+      'chrome101',
+      'chrome104',
+      'chrome107',
+      'chrome110',
+      'chrome116',
+      'chrome119',
+      'chrome120',
+      'chrome123',
+      'chrome124',
+      'chrome99_android',
+      'edge99',
+      'edge101',
+      'safari153',
+      'safari155',
+      'safari170',
+      'safari172_ios',
+    ],
+  },
+]
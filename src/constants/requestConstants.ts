@@ -10,3 +10,42 @@ export const REQUEST_METHODS_MAP = {
   head: 'HEAD',
   trace: 'TRACE',
 }
+
+// Markers around the --write-out metrics block. The block is written to stderr
+// (via %{stderr}) so it never mixes with the response body on stdout.
+// The \n escapes are expanded by curl, so no literal newline ends up in argv.
+export const METRICS_MARKER_START = '__CUIMP_METRICS_START__'
+export const METRICS_MARKER_END = '__CUIMP_METRICS_END__'
+export const METRICS_WRITE_OUT = `%{stderr}\\n${METRICS_MARKER_START}%{json}${METRICS_MARKER_END}\\n`
+
+// Larger request bodies are written to curl's stdin instead of argv
+export const MAX_ARGV_BODY_BYTES = 8 * 1024
+
+// Content types inferred from file extensions for multipart file parts
+export const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+}
+
+export const DEFAULT_BINARY_CONTENT_TYPE = 'application/octet-stream'
@@ -1,20 +1,55 @@
-import { CuimpDescriptorInput, BinaryInfo, CuimpOptions, Logger } from './types/cuimpTypes'
+import {
+  CuimpDescriptorInput,
+  BinaryInfo,
+  CuimpOptions,
+  Logger,
+  CuimpAvailableTarget,
+  CuimpInstalledBinary,
+  CuimpCacheEntry,
+} from './types/cuimpTypes'
 import { validateDescriptor } from './validations/descriptorValidation'
-import { parseDescriptor } from './helpers/parser'
+import { parseDescriptor, listInstalledBinaries } from './helpers/parser'
+import { listAvailableTargets } from './helpers/targets'
+import { clearCache, listCacheEntries, pruneCache, CachePruneOptions } from './helpers/cache'
+import { normalizeDescriptor } from './helpers/descriptorNormalize'
 import fs from 'fs'
+import path from 'path'
 
 class Cuimp {
+  /**
+   * Binary cache (~/.cuimp/cache or CUIMP_CACHE_DIR), one directory per release and platform:
+   * - list(): installed releases from their manifests, newest first
+   * - prune({ keep }): removes all but the `keep` newest releases per platform (default 1)
+   * - clear(): deletes the whole cache
+   */
+  static readonly cache: {
+    list(): CuimpCacheEntry[]
+    prune(options?: CachePruneOptions): CuimpCacheEntry[]
+    clear(): void
+  } = {
+    list: listCacheEntries,
+    prune: pruneCache,
+    clear: clearCache,
+  }
+
   private descriptor: CuimpDescriptorInput
   private path: string
   private binaryInfo?: BinaryInfo
   private logger: Logger
   private autoDownload: boolean
+  private binarySource?: string
+  // Binary path set by the user (options.path / setBinaryPath), not one resolved from the descriptor
+  private customPath?: string
+  // Binaries for per-request descriptors, keyed by normalized descriptor
+  private variants = new Map<string, Promise<BinaryInfo>>()
 
   constructor(options?: CuimpOptions) {
     this.descriptor = options?.descriptor || {}
     this.path = options?.path || ''
     this.logger = options?.logger ?? console
     this.autoDownload = options?.autoDownload !== false // Default to true
+    this.binarySource = options?.binarySource
+    this.customPath = options?.path || undefined
   }
 
   /**
@@ -34,7 +69,12 @@ class Cuimp {
       }
 
       // Parse descriptor to get binary info
-      this.binaryInfo = await parseDescriptor(this.descriptor, this.logger, this.autoDownload)
+      this.binaryInfo = await parseDescriptor(
+        this.descriptor,
+        this.logger,
+        this.autoDownload,
+        this.binarySource
+      )
 
       if (!this.binaryInfo.binaryPath) {
         throw new Error('Binary path not found after parsing descriptor')
@@ -158,7 +198,9 @@ class Cuimp {
     this.descriptor = { ...descriptor }
     // Reset path and binary info when descriptor changes
     this.path = ''
+    this.customPath = undefined
     this.binaryInfo = undefined
+    this.variants.clear()
   }
 
   /**
@@ -166,13 +208,76 @@ class Cuimp {
    */
   setBinaryPath(path: string): void {
     this.path = path
+    this.customPath = path || undefined
     this.binaryInfo = undefined
+    this.variants.clear()
   }
   /** Convenience to ensure binary and return verified path */
   async ensurePath(): Promise<string> {
     return this.verifyBinary()
   }
 
+  /**
+   * Verified binary path for another descriptor (per-request impersonation).
+   * Each descriptor is resolved (and downloaded if needed) once, then cached.
+   */
+  async ensurePathFor(descriptor: CuimpDescriptorInput): Promise<string> {
+    return (await this.ensureBinaryFor(descriptor)).binaryPath
+  }
+
+  /**
+   * Like ensurePathFor(), but returns the binary info (including the --impersonate
+   * support probed while resolving it).
+   *
+   * The target only replaces the browser profile: the platform, architecture, release and
+   * lockfile of this instance's descriptor are kept, and a custom binary path makes its
+   * directory the binary source, so no other binary is downloaded.
+   */
+  async ensureBinaryFor(descriptor: CuimpDescriptorInput): Promise<BinaryInfo> {
+    const resolved: CuimpDescriptorInput = {
+      ...this.descriptor,
+      version: undefined,
+      variant: undefined,
+      // The shared install was already refreshed for this instance's own binary
+      forceDownload: undefined,
+      ...descriptor,
+    }
+    const key = JSON.stringify(normalizeDescriptor(resolved))
+    let pending = this.variants.get(key)
+    if (!pending) {
+      const variant = new Cuimp({
+        descriptor: resolved,
+        logger: this.logger,
+        autoDownload: this.autoDownload,
+        binarySource:
+          this.binarySource ?? (this.customPath ? path.dirname(this.customPath) : undefined),
+      })
+      pending = variant
+        .verifyBinary()
+        .then(binaryPath => variant.getBinaryInfo() ?? { binaryPath, isDownloaded: false })
+      this.variants.set(key, pending)
+      // Failed lookups are retried on the next request
+      pending.catch(() => this.variants.delete(key))
+    }
+    return pending
+  }
+
+  /**
+   * Lists curl-impersonate wrapper binaries already on disk (the binary cache and the
+   * system search paths) with their browser, version and release
+   */
+  static listInstalled(): CuimpInstalledBinary[] {
+    return listInstalledBinaries()
+  }
+
+  /**
+   * Lists every target the latest curl-impersonate release supports.
+   * Falls back to the last fetched list (~/.cuimp/targets.json) when offline.
+   */
+  static async listAvailable(logger: Logger = console): Promise<CuimpAvailableTarget[]> {
+    return listAvailableTargets(logger)
+  }
+
   /**
    * Downloads the binary without verifying it
    * Useful for pre-downloading or explicit download control
@@ -186,7 +291,7 @@ class Cuimp {
 
       // Parse descriptor to get binary info and download
       // download() method always downloads, so ignore autoDownload setting
-      this.binaryInfo = await parseDescriptor(this.descriptor, this.logger, true)
+      this.binaryInfo = await parseDescriptor(this.descriptor, this.logger, true, this.binarySource)
 
       if (!this.binaryInfo.binaryPath) {
         throw new Error('Binary path not found after processing')
@@ -215,7 +320,7 @@ import type { CuimpRequestConfig, CuimpResponse, JSONValue } from './types/cuimp
 export default {
   get: async <T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { get } = await import('./index')
     return get<T>(url, config)
@@ -223,7 +328,7 @@ export default {
   post: async <T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { post } = await import('./index')
     return post<T>(url, data, config)
@@ -231,7 +336,7 @@ export default {
   put: async <T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { put } = await import('./index')
     return put<T>(url, data, config)
@@ -239,34 +344,38 @@ export default {
   patch: async <T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { patch } = await import('./index')
     return patch<T>(url, data, config)
   },
   delete: async <T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { del } = await import('./index')
     return del<T>(url, config)
   },
   head: async <T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { head } = await import('./index')
     return head<T>(url, config)
   },
   options: async <T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>> => {
     const { options } = await import('./index')
     return options<T>(url, config)
   },
-  request: async <T = JSONValue>(config: CuimpRequestConfig): Promise<CuimpResponse<T>> => {
+  request: async <T = JSONValue>(config: CuimpRequestConfig<T>): Promise<CuimpResponse<T>> => {
     const { request } = await import('./index')
     return request<T>(config)
   },
+  fetch: async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const { fetch } = await import('./index')
+    return fetch(input, init)
+  },
 }
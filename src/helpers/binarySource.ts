@@ -0,0 +1,57 @@
+import path from 'path'
+
+/**
+ * Purpose: Decide where curl-impersonate binaries come from (GitHub, a mirror, a local
+ * archive or a directory of pre-extracted binaries).
+ * Caller: parser (parseDescriptor, downloadAndExtractBinary), connector.
+ * Dependencies: path.
+ * Main Functions: resolveBinarySource, expandMirrorUrl, releaseFromAssetName.
+ * Side Effects: None; reads CUIMP_BINARY_PATH / CUIMP_BINARY_MIRROR from the environment.
+ */
+
+export type ResolvedBinarySource =
+  | { kind: 'github' }
+  | { kind: 'mirror'; template: string }
+  | { kind: 'archive'; path: string }
+  | { kind: 'directory'; path: string }
+
+const ARCHIVE_PATTERN = /\.(?:tar\.gz|tgz)$/i
+
+/**
+ * Resolves `CuimpOptions.binarySource`, falling back to CUIMP_BINARY_PATH, then
+ * CUIMP_BINARY_MIRROR, then GitHub:
+ * - http(s) URL: mirror URL template (`{tag}` and `{asset}` placeholders) or base URL
+ * - path ending in .tar.gz / .tgz: release archive to extract
+ * - any other path: directory of pre-extracted binaries
+ */
+export function resolveBinarySource(
+  source?: string,
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedBinarySource {
+  const value = source?.trim() || env.CUIMP_BINARY_PATH?.trim() || env.CUIMP_BINARY_MIRROR?.trim()
+  if (!value) return { kind: 'github' }
+  if (/^https?:\/\//i.test(value)) return { kind: 'mirror', template: value }
+  if (ARCHIVE_PATTERN.test(value)) return { kind: 'archive', path: path.resolve(value) }
+  return { kind: 'directory', path: path.resolve(value) }
+}
+
+/**
+ * Download URL for a release asset on a mirror. A template without placeholders is
+ * treated as a base URL laid out like GitHub releases: `<base>/<tag>/<asset>`.
+ */
+export function expandMirrorUrl(template: string, tag: string, asset: string): string {
+  if (!template.includes('{tag}') && !template.includes('{asset}')) {
+    return `${template.replace(/\/+$/, '')}/${encodeURIComponent(tag)}/${encodeURIComponent(asset)}`
+  }
+  return template
+    .replace(/\{tag\}/g, encodeURIComponent(tag))
+    .replace(/\{asset\}/g, encodeURIComponent(asset))
+}
+
+/**
+ * Release tag encoded in an archive name
+ * (curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz -> v1.2.2)
+ */
+export function releaseFromAssetName(assetName: string): string | null {
+  return /^(?:lib)?curl-impersonate-(v?\d+\.\d+\.\d+)\./.exec(assetName)?.[1] ?? null
+}
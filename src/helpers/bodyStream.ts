@@ -0,0 +1,69 @@
+import { Readable } from 'stream'
+
+/**
+ * Purpose: Readable response body fed by the curl stream parser, with backpressure.
+ * Caller: CuimpHttp.stream() (and through it, fetch()).
+ * Dependencies: node stream, WHATWG ReadableStream.
+ * Main Functions: ResponseBodyStream, toWebStream.
+ * Side Effects: None; destroying the stream calls the provided abort callback.
+ */
+
+/**
+ * Readable side of a streaming response. The producer awaits write(), which only resolves
+ * once the consumer wants more data - so a slow consumer pauses curl's stdout.
+ */
+export class ResponseBodyStream extends Readable {
+  private resumeProducer: (() => void) | null = null
+
+  constructor(private readonly onDestroy?: () => void) {
+    super()
+  }
+
+  /**
+   * Pushes a chunk, resolving when the internal buffer has room again
+   */
+  async write(chunk: Buffer): Promise<void> {
+    if (this.destroyed) return
+    if (!this.push(chunk)) {
+      await new Promise<void>(resolve => {
+        this.resumeProducer = resolve
+      })
+    }
+  }
+
+  private wakeProducer(): void {
+    this.resumeProducer?.()
+    this.resumeProducer = null
+  }
+
+  override _read(): void {
+    this.wakeProducer()
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.wakeProducer()
+    // Destroyed before the body ended: stop the transfer
+    if (!this.readableEnded) this.onDestroy?.()
+    callback(error)
+  }
+}
+
+/**
+ * Wraps a Node Readable in a pull-based web ReadableStream (reads only on demand)
+ */
+export function toWebStream(readable: Readable): ReadableStream<Uint8Array> {
+  const iterator = readable[Symbol.asyncIterator]() as AsyncIterator<Buffer>
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = await iterator.next()
+      if (result.done) {
+        controller.close()
+      } else {
+        controller.enqueue(result.value)
+      }
+    },
+    cancel(reason) {
+      readable.destroy(reason instanceof Error ? reason : undefined)
+    },
+  })
+}
@@ -0,0 +1,143 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { CuimpCacheEntry } from '../types/cuimpTypes'
+
+/**
+ * Purpose: Versioned binary cache, one isolated directory per release and platform
+ * (~/.cuimp/cache/v1.2.2/x86_64-linux-gnu/), each described by a manifest.json.
+ * Caller: parser (download, binary lookup), Cuimp.cache.
+ * Dependencies: fs, os, path.
+ * Main Functions: getCacheDir, getInstallDir, listCacheEntries, pruneCache, clearCache.
+ * Side Effects: Reads CUIMP_CACHE_DIR; prune/clear delete cache directories.
+ */
+
+export const CACHE_MANIFEST_FILE = 'manifest.json'
+
+/** manifest.json written into each install directory */
+export type CacheManifest = Omit<CuimpCacheEntry, 'path'>
+
+export interface CachePruneOptions {
+  /** Releases to keep per platform/architecture, newest first (default: 1) */
+  keep?: number
+}
+
+/**
+ * Cache root: CUIMP_CACHE_DIR, or ~/.cuimp/cache
+ */
+export function getCacheDir(): string {
+  const fromEnv = process.env.CUIMP_CACHE_DIR?.trim()
+  return fromEnv ? path.resolve(fromEnv) : path.resolve(os.homedir(), '.cuimp', 'cache')
+}
+
+/**
+ * Platform part of a release archive name
+ * (curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz -> x86_64-linux-gnu)
+ */
+export function assetTriple(assetName: string, release: string): string | null {
+  const base = assetName.replace(/\.(?:tar\.gz|tgz)$/i, '')
+  for (const prefix of [`curl-impersonate-${release}.`, `libcurl-impersonate-${release}.`]) {
+    if (base.startsWith(prefix)) return base.slice(prefix.length) || null
+  }
+  return null
+}
+
+export function getInstallDir(release: string, triple: string): string {
+  return path.join(getCacheDir(), release, triple)
+}
+
+export function readInstallManifest(dir: string): CacheManifest | null {
+  try {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(dir, CACHE_MANIFEST_FILE), 'utf8')
+    ) as CacheManifest
+    return typeof manifest.release === 'string' ? manifest : null
+  } catch {
+    return null
+  }
+}
+
+export function writeInstallManifest(dir: string, manifest: CacheManifest): void {
+  fs.writeFileSync(path.join(dir, CACHE_MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`)
+}
+
+/**
+ * Orders release tags ascending (v1.0.0 < v1.2.2 < v1.10.0)
+ */
+export function compareReleaseTags(a: string, b: string): number {
+  const pa = a.match(/\d+/g)?.map(Number) ?? []
+  const pb = b.match(/\d+/g)?.map(Number) ?? []
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return a.localeCompare(b)
+}
+
+const readDirs = (dir: string): string[] => {
+  try {
+    return (
+      fs
+        .readdirSync(dir, { withFileTypes: true })
+        // Dot-directories are installs still being extracted
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map(entry => entry.name)
+    )
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Installed releases (directories with a manifest), newest release first
+ */
+export function listCacheEntries(): CuimpCacheEntry[] {
+  const cacheDir = getCacheDir()
+  const entries: CuimpCacheEntry[] = []
+  for (const release of readDirs(cacheDir)) {
+    for (const triple of readDirs(path.join(cacheDir, release))) {
+      const installDir = path.join(cacheDir, release, triple)
+      const manifest = readInstallManifest(installDir)
+      if (manifest) entries.push({ ...manifest, path: installDir })
+    }
+  }
+  return entries.sort(
+    (a, b) => compareReleaseTags(b.release, a.release) || a.path.localeCompare(b.path)
+  )
+}
+
+/**
+ * Removes all but the `keep` newest releases of each platform/architecture.
+ * Returns the removed entries.
+ */
+export function pruneCache(options: CachePruneOptions = {}): CuimpCacheEntry[] {
+  const keep = Math.max(0, options.keep ?? 1)
+  const kept = new Map<string, number>()
+  const removed: CuimpCacheEntry[] = []
+
+  for (const entry of listCacheEntries()) {
+    const key = path.basename(entry.path)
+    const count = kept.get(key) ?? 0
+    if (count < keep) {
+      kept.set(key, count + 1)
+      continue
+    }
+    fs.rmSync(entry.path, { recursive: true, force: true })
+    removed.push(entry)
+  }
+
+  // Drop release directories left empty
+  const cacheDir = getCacheDir()
+  for (const release of readDirs(cacheDir)) {
+    const releaseDir = path.join(cacheDir, release)
+    if (fs.readdirSync(releaseDir).length === 0) fs.rmdirSync(releaseDir)
+  }
+  return removed
+}
+
+/**
+ * Deletes the whole cache directory
+ */
+export function clearCache(): void {
+  fs.rmSync(getCacheDir(), { recursive: true, force: true })
+}
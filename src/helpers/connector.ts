@@ -1,4 +1,5 @@
 import { Logger } from '../types/cuimpTypes'
+import { expandMirrorUrl } from './binarySource'
 
 interface GitHubRelease {
   tag_name: string
@@ -10,7 +11,24 @@ interface GitHubRelease {
 /** Matches semver pre-release segments and tags like v2.0.0a1 (issue #43). */
 const PRERELEASE_TAG_PATTERN = /(?:[-._](?:alpha|beta|rc|pre|a\d|b\d)|\d+a\d+$)/i
 
-export const getLatestRelease = async (): Promise<string> => {
+/**
+ * Latest stable curl-impersonate release tag. With a mirror, the tag is read as plain
+ * text from the mirror's `latest/VERSION` file (the template with tag "latest").
+ */
+export const getLatestRelease = async (mirror?: string): Promise<string> => {
+  if (mirror) {
+    const url = expandMirrorUrl(mirror, 'latest', 'VERSION')
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Mirror error: ${response.status} for ${url}`)
+    }
+    const tag = (await response.text()).trim()
+    if (!tag) {
+      throw new Error(`Mirror returned no release tag at ${url}`)
+    }
+    return tag
+  }
+
   const response = await fetch(
     `https://api.github.com/repos/lexiforest/curl-impersonate/releases?per_page=20`
   )
@@ -37,3 +55,85 @@ export const getVersion = async (
   logger.info(latestRelease)
   return latestRelease.replace(/^v/, '') // strip leading "v"
 }
+
+interface GitHubContentEntry {
+  name: string
+  type: string
+  [key: string]: unknown
+}
+
+/**
+ * Browser targets shipped with a release, read from the wrapper scripts in the tag's
+ * bin/ directory (e.g. "curl_chrome136" -> "chrome136").
+ */
+export const getReleaseTargets = async (release: string): Promise<string[]> => {
+  const response = await fetch(
+    `https://api.github.com/repos/lexiforest/curl-impersonate/contents/bin?ref=${encodeURIComponent(release)}`
+  )
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`)
+  }
+  const entries = (await response.json()) as GitHubContentEntry[]
+  return entries
+    .filter(entry => entry.type === 'file' && entry.name.startsWith('curl_'))
+    .map(entry => entry.name.slice('curl_'.length))
+}
+
+interface GitHubReleaseAsset {
+  name: string
+  browser_download_url: string
+}
+
+// Checksum files a release may publish alongside its archives
+const CHECKSUM_ASSET_NAMES = ['sha256sums', 'sha256sums.txt', 'checksums.txt', 'checksums.sha256']
+
+/**
+ * Reads a hash from `sha256sum` output ("<hash>  <name>" or "<hash> *<name>" lines)
+ * or a single-hash .sha256 file
+ */
+const findChecksum = (text: string, assetName: string): string | null => {
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([a-f0-9]{64})(?:\s+\*?(.+))?$/i.exec(line.trim())
+    if (match && (!match[2] || match[2].trim() === assetName)) return match[1].toLowerCase()
+  }
+  return null
+}
+
+/**
+ * SHA-256 published for a release asset (`<asset>.sha256` or a SHA256SUMS-style file),
+ * or null when the release publishes no checksum for it. Mirrors are asked for
+ * `<asset>.sha256` only.
+ */
+export const getReleaseChecksum = async (
+  release: string,
+  assetName: string,
+  mirror?: string
+): Promise<string | null> => {
+  if (mirror) {
+    // Mirrors serve `<asset>.sha256` next to the archive
+    const checksumResponse = await fetch(expandMirrorUrl(mirror, release, `${assetName}.sha256`))
+    if (checksumResponse.status === 404) return null
+    if (!checksumResponse.ok) {
+      throw new Error(`Mirror error: ${checksumResponse.status} for ${assetName}.sha256`)
+    }
+    return findChecksum(await checksumResponse.text(), assetName)
+  }
+
+  const response = await fetch(
+    `https://api.github.com/repos/lexiforest/curl-impersonate/releases/tags/${encodeURIComponent(release)}`
+  )
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`)
+  }
+  const { assets = [] } = (await response.json()) as { assets?: GitHubReleaseAsset[] }
+  const checksumAsset =
+    assets.find(asset => asset.name === `${assetName}.sha256`) ??
+    assets.find(asset => CHECKSUM_ASSET_NAMES.includes(asset.name.toLowerCase()))
+  if (!checksumAsset) return null
+
+  const checksumResponse = await fetch(checksumAsset.browser_download_url)
+  if (!checksumResponse.ok) {
+    throw new Error(`Failed to download ${checksumAsset.name}: ${checksumResponse.status}`)
+  }
+  return findChecksum(await checksumResponse.text(), assetName)
+}
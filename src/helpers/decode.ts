@@ -0,0 +1,105 @@
+import type { CuimpResponseType } from '../types/cuimpTypes'
+import { CuimpParseError } from '../types/cuimpErrors'
+
+/**
+ * Purpose: Turn a raw response body into `response.data` (responseType, charset, JSON).
+ * Caller: CuimpHttp.executeRequest() and the error paths of download()/ndjson().
+ * Dependencies: TextDecoder (full ICU for legacy charsets such as Shift_JIS).
+ * Main Functions: decodeBody, decodeText, detectCharset, isJsonContentType.
+ * Side Effects: None.
+ */
+
+export interface DecodeBodyOptions {
+  responseType?: CuimpResponseType
+  jsonReviver?: (this: unknown, key: string, value: unknown) => unknown
+  /** 'fallback' returns the decoded text when JSON parsing fails, 'throw' throws CuimpParseError */
+  jsonParseError?: 'fallback' | 'throw'
+}
+
+// Bytes scanned for an HTML <meta> or XML declaration charset (as browsers do)
+const CHARSET_PRESCAN_BYTES = 1024
+
+/**
+ * True for application/json, text/json and structured-syntax types like
+ * application/problem+json
+ */
+export function isJsonContentType(contentType?: string): boolean {
+  const mime = contentType?.split(';')[0].trim().toLowerCase() ?? ''
+  return mime === 'application/json' || mime === 'text/json' || mime.endsWith('+json')
+}
+
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Finds the body's charset: byte order mark, then the Content-Type `charset` parameter,
+ * then an HTML `<meta>` tag or XML declaration near the start. Defaults to utf-8.
+ */
+export function detectCharset(buf: Buffer, contentType?: string): string {
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return 'utf-8'
+  if (buf[0] === 0xff && buf[1] === 0xfe) return 'utf-16le'
+  if (buf[0] === 0xfe && buf[1] === 0xff) return 'utf-16be'
+
+  const fromHeader = contentType?.match(/charset\s*=\s*"?([^";\s]+)/i)?.[1]
+  if (fromHeader && isSupportedCharset(fromHeader)) return fromHeader.toLowerCase()
+
+  const head = buf.subarray(0, CHARSET_PRESCAN_BYTES).toString('latin1')
+  const fromDocument =
+    head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1] ??
+    head.match(/^<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)/)?.[1]
+  if (fromDocument && isSupportedCharset(fromDocument)) return fromDocument.toLowerCase()
+
+  return 'utf-8'
+}
+
+/**
+ * Decodes a body to text using its detected charset
+ */
+export function decodeText(buf: Buffer, contentType?: string): string {
+  return new TextDecoder(detectCharset(buf, contentType)).decode(buf)
+}
+
+/**
+ * Builds `response.data` from the raw body.
+ *
+ * - `auto` (default): JSON for JSON content types, otherwise text
+ * - `json`: JSON whatever the content type
+ * - `text`: charset-decoded string
+ * - `buffer` / `arraybuffer`: the raw bytes
+ *
+ * JSON that fails to parse falls back to the text unless `jsonParseError` is 'throw'.
+ */
+export function decodeBody(
+  buf: Buffer,
+  contentType: string | undefined,
+  options: DecodeBodyOptions = {}
+): unknown {
+  const { responseType = 'auto', jsonReviver, jsonParseError = 'fallback' } = options
+
+  if (responseType === 'buffer') return buf
+  if (responseType === 'arraybuffer') {
+    return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength)
+  }
+
+  const text = decodeText(buf, contentType)
+  if (responseType === 'text') return text
+  if (responseType === 'auto' && !isJsonContentType(contentType)) return text
+
+  try {
+    return JSON.parse(text, jsonReviver) as unknown
+  } catch (error) {
+    if (jsonParseError === 'throw') {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new CuimpParseError(`Invalid JSON response body: ${reason}`, text, undefined, {
+        cause: error,
+      })
+    }
+    return text
+  }
+}
@@ -12,6 +12,7 @@ export interface BinaryTarget {
 type Platform = NonNullable<CuimpDescriptor['platform']>
 type Architecture = NonNullable<CuimpDescriptor['architecture']>
 type Browser = NonNullable<CuimpDescriptor['browser']>
+type Variant = NonNullable<CuimpDescriptor['variant']>
 
 const DESKTOP_FALLBACK: Record<string, Record<string, string>> = {
   ios: {
@@ -44,6 +45,9 @@ const isPlatform = (value: string): value is Platform =>
 const isArchitecture = (value: string): value is Architecture =>
   (ARCHITECTURE_LIST as readonly string[]).includes(value)
 
+const isVariant = (value: string): value is Variant =>
+  (MOBILE_PLATFORMS as readonly string[]).includes(value)
+
 const isBrowser = (value: string): value is Browser =>
   (['chrome', 'firefox', 'edge', 'safari'] as readonly string[]).includes(value)
 
@@ -98,6 +102,19 @@ export const normalizeDescriptor = (descriptor: CuimpDescriptorInput): CuimpDesc
   if (descriptor.forceDownload !== undefined) {
     result.forceDownload = descriptor.forceDownload
   }
+  if (descriptor.release) {
+    result.release = normalizeReleaseTag(descriptor.release)
+  }
+  if (descriptor.lockfile) {
+    result.lockfile = descriptor.lockfile
+  }
+  if (descriptor.allowUnverified !== undefined) {
+    result.allowUnverified = descriptor.allowUnverified
+  }
+  const variant = descriptor.variant?.trim().toLowerCase()
+  if (variant && isVariant(variant)) {
+    result.variant = variant
+  }
 
   const platform = descriptor.platform ? normalizePlatform(descriptor.platform) : undefined
   if (platform) {
@@ -163,3 +180,38 @@ export const resolveBinaryTarget = (
 }
 
 export const BROWSER_VERSION_PATTERN = /^\d{3,4}[a-z]?$/
+
+// curl-impersonate release tags: v1.2.2, 0.6.1, v1.0.0-beta.1
+export const RELEASE_TAG_PATTERN = /^v?\d+\.\d+\.\d+[\w.-]*$/
+
+/**
+ * Release tags are published with a leading "v" ("1.2.2" -> "v1.2.2")
+ */
+export const normalizeReleaseTag = (release: string): string => {
+  const tag = release.trim()
+  return tag.startsWith('v') ? tag : `v${tag}`
+}
+
+// curl-impersonate target names: chrome136, safari2601, chrome131_android, safari260_ios
+const IMPERSONATE_TARGET_PATTERN =
+  /^(chrome|firefox|edge|safari)(\d{3,4}[a-z]?)?(?:_(ios|android))?$/
+
+/**
+ * Parses a curl-impersonate target name (e.g. "chrome136", "safari2601") into a descriptor.
+ * Without a version the latest binary for that browser is used. A mobile suffix
+ * (safari260_ios) becomes the descriptor's `variant`; it does not change the host platform.
+ */
+export const parseImpersonateTarget = (target: string): CuimpDescriptorInput => {
+  const match = IMPERSONATE_TARGET_PATTERN.exec(target.trim().toLowerCase())
+  if (!match) {
+    throw new Error(
+      `Invalid impersonate target: ${target}. Expected a browser name with an optional version, e.g. chrome136 or safari2601`
+    )
+  }
+  const [, browser, version, variant] = match
+  return {
+    browser,
+    ...(version ? { version } : {}),
+    ...(variant ? { variant } : {}),
+  }
+}
@@ -0,0 +1,133 @@
+import fs from 'fs'
+import path from 'path'
+import { createHash, type Hash } from 'crypto'
+import { once } from 'events'
+
+/**
+ * Purpose: Disk side of CuimpHttp.download(): partial file, resume offset, checksum.
+ * Caller: CuimpHttp.download().
+ * Dependencies: fs, crypto.
+ * Main Functions: DownloadFile, parseContentRangeTotal.
+ * Side Effects: Creates, appends to, renames and deletes `<dest>.part` files.
+ */
+
+/**
+ * Total size from a `Content-Range: bytes 0-99/1234` header (also the `*` form sent with 416)
+ */
+export function parseContentRangeTotal(value?: string): number | undefined {
+  const m = value?.match(/\/(\d+)\s*$/)
+  return m ? parseInt(m[1], 10) : undefined
+}
+
+/**
+ * Streams a download into `<dest>.part` and moves it into place once complete.
+ * With `resume`, an existing `.part` file is continued (and included in the checksum).
+ */
+export class DownloadFile {
+  readonly partPath: string
+  /** Bytes already on disk before this transfer */
+  offset = 0
+  /** Bytes written in this transfer */
+  written = 0
+
+  private stream: fs.WriteStream | null = null
+  private hash: Hash | null = null
+
+  constructor(
+    readonly destPath: string,
+    private readonly options: { resume?: boolean; algorithm?: string } = {}
+  ) {
+    this.partPath = `${destPath}.part`
+  }
+
+  /**
+   * Determines the resume offset (0 when not resuming or nothing is on disk yet)
+   */
+  async prepare(): Promise<number> {
+    await fs.promises.mkdir(path.dirname(this.destPath), { recursive: true })
+    if (!this.options.resume) return 0
+    try {
+      this.offset = (await fs.promises.stat(this.partPath)).size
+    } catch {
+      this.offset = 0
+    }
+    return this.offset
+  }
+
+  /**
+   * Opens the part file; `append` continues after the resume offset, otherwise starts over
+   */
+  async open(append: boolean): Promise<void> {
+    if (!append) this.offset = 0
+    if (this.options.algorithm) {
+      this.hash = createHash(this.options.algorithm)
+      if (append && this.offset > 0) {
+        for await (const chunk of fs.createReadStream(this.partPath)) {
+          this.hash.update(chunk as Buffer)
+        }
+      }
+    }
+    this.stream = fs.createWriteStream(this.partPath, { flags: append ? 'a' : 'w' })
+    await once(this.stream, 'open')
+  }
+
+  /**
+   * Writes a chunk, resolving once the file stream can take more data
+   */
+  async write(chunk: Buffer): Promise<void> {
+    if (!this.stream) throw new Error('Download file is not open')
+    this.hash?.update(chunk)
+    this.written += chunk.length
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain')
+    }
+  }
+
+  private async close(): Promise<void> {
+    const stream = this.stream
+    this.stream = null
+    if (stream && !stream.closed) {
+      stream.end()
+      await once(stream, 'close')
+    }
+  }
+
+  /**
+   * Flushes the part file, verifies the checksum and renames it to the destination.
+   * Returns the hex digest when a checksum algorithm was set.
+   */
+  async commit(expected?: string): Promise<string | undefined> {
+    await this.close()
+
+    let digest: string | undefined
+    if (this.options.algorithm) {
+      if (!this.hash) {
+        // Already complete on disk (resume answered 416)
+        this.hash = createHash(this.options.algorithm)
+        for await (const chunk of fs.createReadStream(this.partPath)) {
+          this.hash.update(chunk as Buffer)
+        }
+      }
+      digest = this.hash.digest('hex')
+      if (expected && digest.toLowerCase() !== expected.toLowerCase()) {
+        await this.discard(false)
+        throw new Error(
+          `Checksum mismatch for ${this.destPath}: expected ${expected}, got ${digest}`
+        )
+      }
+    }
+
+    await fs.promises.rename(this.partPath, this.destPath)
+    return digest
+  }
+
+  /**
+   * Closes the part file and deletes it unless it should be kept for a later resume
+   */
+  async discard(keepPartial: boolean): Promise<void> {
+    await this.close()
+    if (!keepPartial) {
+      await fs.promises.rm(this.partPath, { force: true })
+    }
+  }
+}
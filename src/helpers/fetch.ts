@@ -0,0 +1,181 @@
+import type {
+  CuimpInstance,
+  CuimpReadableResponse,
+  CuimpRequestConfig,
+  Method,
+} from '../types/cuimpTypes'
+import type { CuimpHeaders } from './headers'
+
+/**
+ * Purpose: fetch()-compatible facade over CuimpHttp.stream().
+ * Caller: CuimpHttp.fetch() and the top-level fetch() export.
+ * Dependencies: WHATWG Request/Response/Headers/ReadableStream (Node 18+ globals).
+ * Main Functions: cuimpFetch.
+ * Side Effects: Spawns curl through the given client.
+ */
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304]
+
+// A Request's body is always exposed as a stream, even when it was built from a string or
+// a buffer. Bodies up to this size are read first so they are sent with a Content-Length
+// (argv or --data-binary) like other bodies instead of as a chunked upload.
+const BUFFERED_REQUEST_BODY_BYTES = 1024 * 1024
+
+function toRequestHeaders(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    out[name] = value
+  })
+  return out
+}
+
+function toResponseHeaders(headers: CuimpHeaders): Headers {
+  const out = new Headers()
+  for (const [name, value] of headers) {
+    try {
+      out.append(name, value)
+    } catch {
+      // Skip header names/values that Headers rejects
+    }
+  }
+  return out
+}
+
+/**
+ * Converts a fetch BodyInit into CuimpRequestConfig.data, filling in the Content-Type
+ * that fetch would derive from the body
+ */
+async function toRequestData(
+  body: BodyInit | null | undefined,
+  headers: Headers
+): Promise<CuimpRequestConfig['data']> {
+  if (body === null || body === undefined) return undefined
+
+  if (typeof body === 'string') {
+    if (!headers.has('content-type')) headers.set('content-type', 'text/plain;charset=UTF-8')
+    return body
+  }
+  if (body instanceof URLSearchParams || body instanceof FormData) {
+    return body
+  }
+  if (body instanceof Blob) {
+    if (body.type && !headers.has('content-type')) headers.set('content-type', body.type)
+    return Buffer.from(await body.arrayBuffer())
+  }
+  if (body instanceof ArrayBuffer) {
+    return Buffer.from(body)
+  }
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+  }
+  // ReadableStream (or another async iterable) is streamed through stdin
+  return body as ReadableStream<Uint8Array>
+}
+
+/**
+ * Reads a Request body into a Buffer, or, once it grows past BUFFERED_REQUEST_BODY_BYTES
+ * (a large or long-running stream), keeps streaming it after the chunks already read
+ */
+async function readRequestBody(
+  body: ReadableStream<Uint8Array>
+): Promise<Buffer | AsyncIterable<Uint8Array>> {
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (size <= BUFFERED_REQUEST_BODY_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) {
+      reader.releaseLock()
+      return Buffer.concat(chunks)
+    }
+    chunks.push(value)
+    size += value.byteLength
+  }
+
+  async function* rest(): AsyncGenerator<Uint8Array> {
+    try {
+      yield* chunks
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) return
+        yield value
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+  return rest()
+}
+
+function toFetchError(error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted) return signal.reason
+  return new TypeError('fetch failed', { cause: error })
+}
+
+/**
+ * Performs a request with fetch() semantics and resolves with a WHATWG Response as soon
+ * as the final response headers arrive. The body is the web stream of CuimpHttp.stream(),
+ * so curl's output is paused when the consumer stops reading.
+ *
+ * - `redirect: 'follow'` (default) follows redirects with the client's maxRedirects
+ * - `redirect: 'manual'` returns the 3xx response itself
+ * - `redirect: 'error'` rejects with a TypeError on a redirect
+ *
+ * Like fetch, HTTP error statuses resolve normally; network errors reject with a
+ * TypeError whose `cause` is the CurlError, and aborts reject with the signal's reason.
+ */
+export async function cuimpFetch(
+  client: Pick<CuimpInstance, 'stream'>,
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const request = input instanceof Request ? input : undefined
+  const url = input instanceof Request ? input.url : typeof input === 'string' ? input : input.href
+  const method = (init.method ?? request?.method ?? 'GET').toUpperCase() as Method
+  const headers = new Headers(init.headers ?? request?.headers)
+  const redirect = init.redirect ?? request?.redirect ?? 'follow'
+  const signal = init.signal ?? request?.signal ?? undefined
+  const data =
+    init.body === undefined && request?.body
+      ? await readRequestBody(request.body)
+      : await toRequestData(init.body !== undefined ? init.body : request?.body, headers)
+
+  if (signal?.aborted) throw signal.reason
+
+  let streamed: CuimpReadableResponse
+  try {
+    streamed = await client.stream({
+      url,
+      method,
+      headers: toRequestHeaders(headers),
+      data,
+      signal,
+      ...(redirect === 'follow' ? {} : { maxRedirects: 0 }),
+    })
+  } catch (error) {
+    throw toFetchError(error, signal)
+  }
+
+  if (redirect === 'error' && streamed.status >= 300 && streamed.status < 400) {
+    streamed.body.destroy()
+    throw new TypeError(`fetch failed: redirect to ${streamed.headers.get('location')}`)
+  }
+
+  const nullBody = NULL_BODY_STATUSES.includes(streamed.status) || method === 'HEAD'
+  if (nullBody) {
+    // Let curl finish; nothing will read the body
+    streamed.body.resume()
+  }
+
+  const response = new Response(nullBody ? null : streamed.toWeb(), {
+    status: streamed.status,
+    statusText: streamed.statusText,
+    headers: toResponseHeaders(streamed.headers),
+  })
+  Object.defineProperty(response, 'url', { value: streamed.url ?? url })
+  Object.defineProperty(response, 'redirected', {
+    value: (streamed.redirects?.length ?? 0) > 0,
+  })
+  return response
+}
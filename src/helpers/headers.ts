@@ -0,0 +1,123 @@
+/**
+ * Purpose: Response header container that keeps every header line as received.
+ * Caller: HTTP response parsers (parseHttpHeaderBlock) and CuimpHttp responses.
+ * Dependencies: none.
+ * Main Functions: CuimpHeaders.
+ * Side Effects: None.
+ */
+
+/**
+ * Response headers as exposed on CuimpResponse: a CuimpHeaders instance that also
+ * works as the plain `{ 'lowercase-name': value }` object used before.
+ */
+export type CuimpResponseHeaders = CuimpHeaders & Record<string, string>
+
+/**
+ * Ordered, multi-value response headers.
+ *
+ * - `get()` is case-insensitive and joins repeated headers with ", " (like fetch's Headers)
+ * - `getAll()` / `getSetCookie()` return every value separately
+ * - iteration yields `[name, value]` pairs in wire order with the original name casing
+ *
+ * For backward compatibility each header is also an own enumerable property keyed by its
+ * lowercase name (`headers['content-type']`); when a header repeats, that property holds
+ * the last value. Names that clash with CuimpHeaders methods are only reachable via get().
+ */
+export class CuimpHeaders implements Iterable<[string, string]> {
+  #entries: Array<[string, string]> = []
+
+  constructor(init?: Iterable<[string, string]> | Record<string, string>) {
+    if (!init) return
+    const pairs = Symbol.iterator in init ? init : Object.entries(init)
+    for (const [name, value] of pairs) {
+      this.append(name, value)
+    }
+  }
+
+  /**
+   * Creates headers typed with the plain-object view
+   */
+  static from(init?: Iterable<[string, string]> | Record<string, string>): CuimpResponseHeaders {
+    return new CuimpHeaders(init) as CuimpResponseHeaders
+  }
+
+  /**
+   * Adds a header line, keeping earlier values with the same name
+   */
+  append(name: string, value: string): void {
+    this.#entries.push([name, value])
+    const key = name.toLowerCase()
+    if (!(key in CuimpHeaders.prototype)) {
+      Object.defineProperty(this, key, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+  }
+
+  /**
+   * Returns all values for the name joined with ", ", or undefined when absent
+   */
+  get(name: string): string | undefined {
+    const values = this.getAll(name)
+    return values.length > 0 ? values.join(', ') : undefined
+  }
+
+  /**
+   * Returns every value for the name in wire order
+   */
+  getAll(name: string): string[] {
+    const key = name.toLowerCase()
+    return this.#entries.filter(([k]) => k.toLowerCase() === key).map(([, v]) => v)
+  }
+
+  /**
+   * Returns each Set-Cookie header value separately
+   */
+  getSetCookie(): string[] {
+    return this.getAll('set-cookie')
+  }
+
+  has(name: string): boolean {
+    const key = name.toLowerCase()
+    return this.#entries.some(([k]) => k.toLowerCase() === key)
+  }
+
+  /**
+   * `[name, value]` pairs in wire order, with original name casing
+   */
+  entries(): IterableIterator<[string, string]> {
+    return this.#entries.map(([k, v]): [string, string] => [k, v])[Symbol.iterator]()
+  }
+
+  keys(): IterableIterator<string> {
+    return this.#entries.map(([k]) => k)[Symbol.iterator]()
+  }
+
+  values(): IterableIterator<string> {
+    return this.#entries.map(([, v]) => v)[Symbol.iterator]()
+  }
+
+  forEach(callback: (value: string, name: string, headers: CuimpHeaders) => void): void {
+    for (const [name, value] of this.#entries) {
+      callback(value, name, this)
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, string]> {
+    return this.entries()
+  }
+
+  /**
+   * Plain `{ lowercase-name: value }` copy (last value wins, as before)
+   */
+  toObject(): Record<string, string> {
+    const out: Record<string, string> = {}
+    for (const [name, value] of this.#entries) {
+      out[name.toLowerCase()] = value
+    }
+    return out
+  }
+}
@@ -0,0 +1,96 @@
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import path from 'node:path'
+
+/**
+ * Purpose: Detect curl-impersonate builds that select the fingerprint with `--impersonate`.
+ * Caller: parseDescriptor() (BinaryInfo.impersonateBinary/impersonateTarget); the runner
+ * only reads the stored result.
+ * Dependencies: node child_process (one `--help all` probe per binary), fs, path.
+ * Main Functions: resolveImpersonateCommand, supportsImpersonateFlag, impersonateArgs,
+ * impersonateTargetFromPath.
+ * Side Effects: Runs the binary once with `--help all`; results are cached per path.
+ */
+
+// Wrapper script names: curl_chrome136, curl_safari260_ios, curl_edge101.bat
+const WRAPPER_NAME_PATTERN = /^curl_([a-z]+\d+[a-z]?(?:_(?:ios|android))?)(?:\.bat|\.exe|\.sh)?$/i
+
+const IMPERSONATE_BINARY_NAME = 'curl-impersonate'
+
+const PROBE_TIMEOUT_MS = 5000
+
+const supportCache = new Map<string, Promise<boolean>>()
+
+/** The single binary and the target it is run with instead of a wrapper script */
+export interface ImpersonateCommand {
+  binaryPath: string
+  target: string
+}
+
+/**
+ * Target name encoded in a wrapper script path (curl_chrome136 -> chrome136)
+ */
+export function impersonateTargetFromPath(wrapperPath: string): string | null {
+  const match = WRAPPER_NAME_PATTERN.exec(path.basename(wrapperPath))
+  return match ? match[1].toLowerCase() : null
+}
+
+/**
+ * The curl-impersonate executable next to a wrapper script (or one directory up)
+ */
+function findImpersonateBinary(wrapperPath: string): string | null {
+  const name =
+    process.platform === 'win32' ? `${IMPERSONATE_BINARY_NAME}.exe` : IMPERSONATE_BINARY_NAME
+  const dir = path.dirname(wrapperPath)
+  for (const candidateDir of [dir, path.dirname(dir)]) {
+    const candidate = path.join(candidateDir, name)
+    if (fs.existsSync(candidate)) return candidate
+  }
+  return null
+}
+
+/**
+ * Whether the binary accepts `--impersonate <target>` (curl-impersonate 1.x single binary).
+ * Older releases only work through their wrapper scripts.
+ */
+export function supportsImpersonateFlag(binaryPath: string): Promise<boolean> {
+  const cached = supportCache.get(binaryPath)
+  if (cached) return cached
+
+  const probe = new Promise<boolean>(resolve => {
+    try {
+      execFile(
+        binaryPath,
+        ['--help', 'all'],
+        { encoding: 'utf8', timeout: PROBE_TIMEOUT_MS, windowsHide: true },
+        (_error, stdout) => resolve(typeof stdout === 'string' && stdout.includes('--impersonate'))
+      )
+    } catch {
+      resolve(false)
+    }
+  })
+  supportCache.set(binaryPath, probe)
+  return probe
+}
+
+/**
+ * Arguments that select the target's fingerprint (the same flags the 1.x wrapper scripts pass)
+ */
+export function impersonateArgs(target: string): string[] {
+  return ['--compressed', '--impersonate', target]
+}
+
+/**
+ * For a wrapper path like `.../curl_chrome136`, returns the single binary and the target
+ * that select the same fingerprint directly, or null when the release predates
+ * `--impersonate` (the runner then falls back to parsing the wrapper).
+ */
+export async function resolveImpersonateCommand(
+  wrapperPath: string
+): Promise<ImpersonateCommand | null> {
+  const target = impersonateTargetFromPath(wrapperPath)
+  if (!target) return null
+  const binaryPath = findImpersonateBinary(wrapperPath)
+  if (!binaryPath || !(await supportsImpersonateFlag(binaryPath))) return null
+  return { binaryPath, target }
+}
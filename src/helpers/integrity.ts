@@ -0,0 +1,152 @@
+import { createHash } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type { Logger } from '../types/cuimpTypes'
+import { getReleaseChecksum } from './connector'
+
+/**
+ * Purpose: Pin curl-impersonate releases and verify downloaded archives by SHA-256.
+ * Caller: parser (downloadAndExtractBinary, parseDescriptor).
+ * Dependencies: node crypto, fs, GitHub release connector (published checksums).
+ * Main Functions: verifyAssetIntegrity, readLockfile, writeLockfile, sha256.
+ * Side Effects: Reads and updates cuimp.lock.json.
+ */
+
+export const LOCKFILE_NAME = 'cuimp.lock.json'
+
+/**
+ * cuimp.lock.json: the pinned release and the SHA-256 of each downloaded archive,
+ * keyed by asset name (one asset per platform/architecture)
+ */
+export interface CuimpLockfile {
+  release: string
+  assets: Record<string, string>
+}
+
+export interface VerifyAssetOptions {
+  release: string
+  assetName: string
+  /** Lockfile to check against and record into */
+  lockfile?: string
+  /** Create the lockfile when it does not exist yet */
+  createLockfile?: boolean
+  /** Record the hash in the lockfile even when no published checksum verified it */
+  allowUnverified?: boolean
+  /** Mirror URL template to fetch the published checksum from instead of GitHub */
+  mirror?: string
+  /** Skip the published checksum lookup (local archives) */
+  offline?: boolean
+  logger?: Logger
+}
+
+export function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Reads a lockfile; null when it does not exist. Invalid contents throw.
+ */
+export function readLockfile(filePath: string): CuimpLockfile | null {
+  let text: string
+  try {
+    text = fs.readFileSync(filePath, 'utf8')
+  } catch {
+    return null
+  }
+
+  let lock: Partial<CuimpLockfile>
+  try {
+    lock = JSON.parse(text) as Partial<CuimpLockfile>
+  } catch (error) {
+    throw new Error(
+      `Invalid lockfile ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  if (typeof lock.release !== 'string' || typeof lock.assets !== 'object' || !lock.assets) {
+    throw new Error(`Invalid lockfile ${filePath}: expected "release" and "assets"`)
+  }
+  return { release: lock.release, assets: lock.assets }
+}
+
+export function writeLockfile(filePath: string, lock: CuimpLockfile): void {
+  const assets = Object.fromEntries(
+    Object.entries(lock.assets).sort(([a], [b]) => a.localeCompare(b))
+  )
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, `${JSON.stringify({ release: lock.release, assets }, null, 2)}\n`)
+}
+
+/**
+ * Verifies a downloaded release archive before it is extracted:
+ *
+ * 1. against the lockfile entry for the asset, when there is one
+ * 2. otherwise against the checksum published with the release, when there is one
+ *
+ * A mismatch throws. Verified hashes are recorded in the lockfile; a hash nothing could
+ * verify (no published checksum, or it could not be fetched) only with `allowUnverified`.
+ */
+export async function verifyAssetIntegrity(
+  data: Buffer,
+  options: VerifyAssetOptions
+): Promise<void> {
+  const {
+    release,
+    assetName,
+    lockfile,
+    createLockfile = false,
+    allowUnverified = false,
+    mirror,
+    offline = false,
+    logger = console,
+  } = options
+  const actual = sha256(data)
+  const lock = lockfile ? readLockfile(lockfile) : null
+
+  if (lock && lock.release !== release) {
+    throw new Error(
+      `Lockfile ${lockfile} pins curl-impersonate ${lock.release}, but ${release} was requested`
+    )
+  }
+
+  const locked = lock?.assets[assetName]
+  if (locked) {
+    if (locked.toLowerCase() !== actual) {
+      throw new Error(
+        `Checksum mismatch for ${assetName}: expected ${locked} (from ${lockfile}), got ${actual}`
+      )
+    }
+    logger.debug?.(`Verified ${assetName} against ${lockfile}`)
+    return
+  }
+
+  let published: string | null = null
+  try {
+    if (!offline) published = await getReleaseChecksum(release, assetName, mirror)
+  } catch (error) {
+    logger.warn(
+      `Could not fetch published checksum for ${assetName}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (published) {
+    if (published !== actual) {
+      throw new Error(
+        `Checksum mismatch for ${assetName}: expected ${published} (published with ${release}), got ${actual}`
+      )
+    }
+    logger.debug?.(`Verified ${assetName} against the ${release} checksum`)
+  } else {
+    logger.warn(`No published checksum for ${assetName} (sha256 ${actual})`)
+  }
+
+  if (lockfile && (lock || createLockfile)) {
+    if (!published && !allowUnverified) {
+      logger.warn(
+        `Not recording unverified ${assetName} in ${lockfile} (set allowUnverified to trust it)`
+      )
+      return
+    }
+    writeLockfile(lockfile, { release, assets: { ...lock?.assets, [assetName]: actual } })
+    logger.info(`Recorded ${assetName} in ${lockfile}`)
+  }
+}
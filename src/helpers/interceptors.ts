@@ -0,0 +1,72 @@
+/**
+ * Purpose: Axios-style interceptor registry for CuimpHttp requests and responses.
+ * Caller: CuimpHttp.request() and CuimpHttp.requestStream().
+ * Dependencies: none.
+ * Main Functions: InterceptorManager, runInterceptors.
+ * Side Effects: None; handlers are user-provided.
+ */
+
+export type InterceptorFulfilled<V> = (value: V) => V | Promise<V>
+export type InterceptorRejected<V> = (error: unknown) => V | Promise<V>
+
+export interface InterceptorHandler<V> {
+  fulfilled?: InterceptorFulfilled<V>
+  rejected?: InterceptorRejected<V>
+}
+
+/**
+ * Ordered list of interceptor handlers.
+ * Handlers run in registration order; ejected slots are kept so ids stay stable.
+ */
+export class InterceptorManager<V> {
+  private handlers: Array<InterceptorHandler<V> | null> = []
+
+  /**
+   * Registers a handler pair and returns an id usable with eject()
+   */
+  use(fulfilled?: InterceptorFulfilled<V>, rejected?: InterceptorRejected<V>): number {
+    this.handlers.push({ fulfilled, rejected })
+    return this.handlers.length - 1
+  }
+
+  /**
+   * Removes a previously registered handler pair
+   */
+  eject(id: number): void {
+    if (this.handlers[id]) {
+      this.handlers[id] = null
+    }
+  }
+
+  /**
+   * Removes all handlers
+   */
+  clear(): void {
+    this.handlers = []
+  }
+
+  /**
+   * Number of active (non-ejected) handlers
+   */
+  get size(): number {
+    return this.handlers.filter(h => h !== null).length
+  }
+
+  forEach(fn: (handler: InterceptorHandler<V>) => void): void {
+    for (const handler of this.handlers) {
+      if (handler) fn(handler)
+    }
+  }
+}
+
+/**
+ * Runs a value (or a rejection) through every handler of the manager in order,
+ * with promise `.then(fulfilled, rejected)` semantics.
+ */
+export function runInterceptors<V>(manager: InterceptorManager<V>, start: Promise<V>): Promise<V> {
+  let chain = start
+  manager.forEach(({ fulfilled, rejected }) => {
+    chain = chain.then(fulfilled, rejected)
+  })
+  return chain
+}
@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { Logger } from '../types/cuimpTypes'
+
+/**
+ * Purpose: Cross-process lock file so concurrent workers don't download/extract the same
+ * release over each other.
+ * Caller: parser (downloadAndExtractBinary).
+ * Dependencies: fs, os, path.
+ * Main Functions: withFileLock, isProcessAlive.
+ * Side Effects: Creates, refreshes and removes `<name>.lock` files; removes stale locks.
+ */
+
+export interface FileLockOptions {
+  /**
+   * A lock held from another host that has not been refreshed for this long is considered
+   * abandoned (default: 10 minutes). Locks from this host are checked by PID instead.
+   */
+  staleMs?: number
+  /** Delay between attempts while another process holds the lock (default: 250) */
+  pollMs?: number
+  /** Give up waiting after this long (default: 15 minutes) */
+  timeoutMs?: number
+  logger?: Logger
+}
+
+interface LockOwner {
+  pid: number
+  hostname: string
+  createdAt: string
+  /** Distinguishes holders within one process */
+  id: string
+}
+
+const DEFAULT_STALE_MS = 10 * 60 * 1000
+const DEFAULT_POLL_MS = 250
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Whether a process with this PID runs on this host
+ */
+export const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Contents of the lock when it is stale, otherwise null. An owner on this host is judged
+ * by its PID only, so a slow download never loses its lock; for owners on other hosts
+ * (shared cache directories) only the age is known, and holders keep it fresh.
+ */
+const readStaleLock = (lockPath: string, staleMs: number): string | null => {
+  let ageMs: number
+  let contents: string
+  try {
+    ageMs = Date.now() - fs.statSync(lockPath).mtimeMs
+    contents = fs.readFileSync(lockPath, 'utf8')
+  } catch {
+    // Released in the meantime
+    return null
+  }
+
+  let owner: LockOwner | null = null
+  try {
+    owner = JSON.parse(contents) as LockOwner
+  } catch {
+    // Still being written by its owner
+  }
+  if (owner?.hostname === os.hostname()) {
+    return isProcessAlive(owner.pid) ? null : contents
+  }
+  return ageMs > staleMs ? contents : null
+}
+
+/**
+ * Removes a stale lock without racing other waiters: it is first renamed to a unique
+ * name, so only one waiter claims it. A lock that turns out to have a new owner by then
+ * is linked back into place (which fails rather than replace a newer lock).
+ */
+const removeStaleLock = (lockPath: string, staleContents: string): void => {
+  const claimed = `${lockPath}.stale-${process.pid}-${randomUUID()}`
+  try {
+    fs.renameSync(lockPath, claimed)
+  } catch {
+    // Another waiter claimed it first
+    return
+  }
+  try {
+    if (fs.readFileSync(claimed, 'utf8') !== staleContents) fs.linkSync(claimed, lockPath)
+  } catch {
+    // The lock was taken again in the meantime
+  } finally {
+    fs.rmSync(claimed, { force: true })
+  }
+}
+
+/**
+ * Runs `fn` while holding `lockPath`, waiting for other holders (in this or other
+ * processes) to finish first. The lock is created atomically (O_EXCL), its mtime is
+ * refreshed while `fn` runs, and it is removed afterwards unless another process took it over.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const {
+    staleMs = DEFAULT_STALE_MS,
+    pollMs = DEFAULT_POLL_MS,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    logger,
+  } = options
+  const contents = JSON.stringify({
+    pid: process.pid,
+    hostname: os.hostname(),
+    createdAt: new Date().toISOString(),
+    id: randomUUID(),
+  } satisfies LockOwner)
+  const startedAt = Date.now()
+  let waiting = false
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx')
+      try {
+        fs.writeSync(fd, contents)
+      } finally {
+        fs.closeSync(fd)
+      }
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    const stale = readStaleLock(lockPath, staleMs)
+    if (stale !== null) {
+      logger?.warn(`Removing stale lock ${lockPath}`)
+      removeStaleLock(lockPath, stale)
+      continue
+    }
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`)
+    }
+    if (!waiting) {
+      logger?.info(`Waiting for another process to finish (${lockPath})...`)
+      waiting = true
+    }
+    await sleep(pollMs)
+  }
+
+  // Waiters on other hosts judge the lock by its age
+  const heartbeat = setInterval(
+    () => {
+      try {
+        const now = new Date()
+        fs.utimesSync(lockPath, now, now)
+      } catch {
+        // Removed; nothing to refresh
+      }
+    },
+    Math.max(staleMs / 3, 10)
+  )
+  heartbeat.unref()
+
+  try {
+    return await fn()
+  } finally {
+    clearInterval(heartbeat)
+    try {
+      if (fs.readFileSync(lockPath, 'utf8') === contents) fs.rmSync(lockPath, { force: true })
+    } catch {
+      // Already gone
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import type { CuimpRequestConfig, RequestHeaders } from '../types/cuimpTypes'
+
+/**
+ * Purpose: Merge client-level defaults with per-request (or child client) config.
+ * Caller: CuimpHttp (buildRequestParts, create), createCuimpHttp().
+ * Dependencies: None.
+ * Main Functions: mergeConfig, mergeHeaders.
+ * Side Effects: None; inputs are not modified.
+ */
+
+/**
+ * Merges header objects; names are matched case-insensitively and later objects win
+ */
+export function mergeHeaders(
+  ...sources: (RequestHeaders | undefined)[]
+): Record<string, string | number | boolean> {
+  const out: Record<string, string | number | boolean> = {}
+  const names = new Map<string, string>()
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source ?? {})) {
+      const previous = names.get(name.toLowerCase())
+      if (previous !== undefined) delete out[previous]
+      names.set(name.toLowerCase(), name)
+      out[name] = value
+    }
+  }
+  return out
+}
+
+/**
+ * Merges two configs:
+ * - `headers` and `params` are merged (override keys win, headers case-insensitively)
+ * - `extraCurlArgs` are concatenated (base first)
+ * - every other option is replaced when set in the override (`null` included)
+ */
+export function mergeConfig<T extends Partial<CuimpRequestConfig>>(
+  base: Partial<CuimpRequestConfig>,
+  override: T
+): Partial<CuimpRequestConfig> & T {
+  const merged: Partial<CuimpRequestConfig> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value
+  }
+
+  if (base.headers || override.headers) {
+    merged.headers = mergeHeaders(base.headers, override.headers)
+  }
+  if (base.params || override.params) {
+    merged.params = { ...base.params, ...override.params }
+  }
+  if (base.extraCurlArgs || override.extraCurlArgs) {
+    merged.extraCurlArgs = [...(base.extraCurlArgs ?? []), ...(override.extraCurlArgs ?? [])]
+  }
+  return merged as Partial<CuimpRequestConfig> & T
+}
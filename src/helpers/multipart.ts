@@ -0,0 +1,220 @@
+import fs from 'fs'
+import path from 'path'
+import { randomBytes } from 'crypto'
+import { Readable } from 'stream'
+import { DEFAULT_BINARY_CONTENT_TYPE, MIME_TYPES } from '../constants/requestConstants'
+
+/**
+ * Purpose: multipart/form-data request bodies (text fields, Buffers, files, streams).
+ * Caller: CuimpHttp.buildRequestParts() when `data` is a MultipartBody or a FormData.
+ * Dependencies: fs (file parts), crypto (boundary).
+ * Main Functions: MultipartBody, isMultipartData.
+ * Side Effects: Reads file parts from disk and consumes stream parts while encoding.
+ */
+
+export type MultipartValue = string | Buffer | Uint8Array | Blob | Readable
+
+export interface MultipartPartOptions {
+  /** Filename for the Content-Disposition header (makes the part a file part) */
+  filename?: string
+  /** Part Content-Type (default: inferred from filename, else application/octet-stream) */
+  contentType?: string
+  /** Additional headers for this part */
+  headers?: Record<string, string>
+}
+
+interface MultipartPart {
+  name: string
+  value: MultipartValue | { filePath: string }
+  options: MultipartPartOptions
+}
+
+const CRLF = '\r\n'
+
+/**
+ * Escapes a name/filename for Content-Disposition the way browsers do
+ */
+function escapeDispositionValue(value: string): string {
+  return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A')
+}
+
+function inferContentType(filename?: string): string {
+  if (!filename) return DEFAULT_BINARY_CONTENT_TYPE
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? DEFAULT_BINARY_CONTENT_TYPE
+}
+
+async function partSize(value: MultipartPart['value']): Promise<number | undefined> {
+  if (typeof value === 'string') return Buffer.byteLength(value, 'utf8')
+  if (value instanceof Uint8Array) return value.byteLength
+  if (value instanceof Blob) return value.size
+  if (value instanceof Readable) return undefined
+  return (await fs.promises.stat(value.filePath)).size
+}
+
+/**
+ * Builder for multipart/form-data bodies.
+ *
+ * ```ts
+ * const form = new MultipartBody()
+ *   .append('name', 'cuimp')
+ *   .append('avatar', pngBuffer, { filename: 'avatar.png' })
+ *   .appendFile('report', './report.pdf')
+ * await client.post('/upload', form)
+ * ```
+ *
+ * Stream parts can only be read once, so a body containing them is sent at most once
+ * (no retries).
+ */
+export class MultipartBody {
+  readonly boundary: string
+  private parts: MultipartPart[] = []
+
+  constructor(boundary?: string) {
+    this.boundary = boundary ?? `----cuimpFormBoundary${randomBytes(12).toString('hex')}`
+  }
+
+  /**
+   * Builds a MultipartBody from a WHATWG FormData (File/Blob entries become file parts)
+   */
+  static from(form: FormData): MultipartBody {
+    const body = new MultipartBody()
+    form.forEach((value, name) => {
+      if (typeof value === 'string') {
+        body.append(name, value)
+      } else {
+        body.append(name, value, {
+          filename: value.name || 'blob',
+          contentType: value.type || undefined,
+        })
+      }
+    })
+    return body
+  }
+
+  /**
+   * Adds a field. Strings are text fields; Buffers, Blobs and streams are sent as-is.
+   */
+  append(name: string, value: MultipartValue, options: MultipartPartOptions = {}): this {
+    this.parts.push({ name, value, options })
+    return this
+  }
+
+  /**
+   * Adds a file part read from disk when the request is sent.
+   * The filename defaults to the file's basename and the content type is inferred from it.
+   */
+  appendFile(name: string, filePath: string, options: MultipartPartOptions = {}): this {
+    this.parts.push({
+      name,
+      value: { filePath },
+      options: { ...options, filename: options.filename ?? path.basename(filePath) },
+    })
+    return this
+  }
+
+  /**
+   * Value for the request Content-Type header
+   */
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this.boundary}`
+  }
+
+  /**
+   * False when a part is a stream, which can only be consumed once
+   */
+  get replayable(): boolean {
+    return !this.parts.some(part => part.value instanceof Readable)
+  }
+
+  /**
+   * True when a part is read from disk or a stream while encoding (its size is not in memory)
+   */
+  get streaming(): boolean {
+    return this.parts.some(
+      part =>
+        part.value instanceof Readable ||
+        (typeof part.value === 'object' && 'filePath' in part.value)
+    )
+  }
+
+  /**
+   * Encoded size in bytes (file parts are stat'ed), or undefined when a stream part's
+   * length is unknown
+   */
+  async contentLength(): Promise<number | undefined> {
+    let length = Buffer.byteLength(`--${this.boundary}--${CRLF}`)
+    for (const part of this.parts) {
+      const size = await partSize(part.value)
+      if (size === undefined) return undefined
+      length += Buffer.byteLength(this.partHeader(part), 'utf8') + size + CRLF.length
+    }
+    return length
+  }
+
+  private partHeader(part: MultipartPart): string {
+    const { name, value, options } = part
+    const isText = typeof value === 'string' && options.filename === undefined
+    let disposition = `form-data; name="${escapeDispositionValue(name)}"`
+    if (options.filename !== undefined) {
+      disposition += `; filename="${escapeDispositionValue(options.filename)}"`
+    }
+
+    const lines = [`Content-Disposition: ${disposition}`]
+    const contentType =
+      options.contentType ?? (isText ? undefined : inferContentType(options.filename))
+    if (contentType) lines.push(`Content-Type: ${contentType}`)
+    for (const [k, v] of Object.entries(options.headers ?? {})) {
+      lines.push(`${k}: ${v}`)
+    }
+
+    return `--${this.boundary}${CRLF}${lines.join(CRLF)}${CRLF}${CRLF}`
+  }
+
+  /**
+   * Encodes the body chunk by chunk; file and stream parts are not buffered
+   */
+  async *encode(): AsyncGenerator<Buffer> {
+    for (const part of this.parts) {
+      yield Buffer.from(this.partHeader(part), 'utf8')
+
+      const { value } = part
+      if (typeof value === 'string') {
+        yield Buffer.from(value, 'utf8')
+      } else if (Buffer.isBuffer(value)) {
+        yield value
+      } else if (value instanceof Uint8Array) {
+        yield Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+      } else if (value instanceof Blob) {
+        yield Buffer.from(await value.arrayBuffer())
+      } else {
+        const source = value instanceof Readable ? value : fs.createReadStream(value.filePath)
+        for await (const chunk of source) {
+          yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string)
+        }
+      }
+
+      yield Buffer.from(CRLF)
+    }
+    yield Buffer.from(`--${this.boundary}--${CRLF}`)
+  }
+
+  /**
+   * Encodes the whole body into a single Buffer
+   */
+  async toBuffer(): Promise<Buffer> {
+    const chunks: Buffer[] = []
+    for await (const chunk of this.encode()) {
+      chunks.push(chunk)
+    }
+    return Buffer.concat(chunks)
+  }
+}
+
+/**
+ * True for request data that should be sent as multipart/form-data
+ */
+export function isMultipartData(data: unknown): data is MultipartBody | FormData {
+  return (
+    data instanceof MultipartBody || (typeof FormData !== 'undefined' && data instanceof FormData)
+  )
+}
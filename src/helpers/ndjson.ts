@@ -0,0 +1,55 @@
+import type { JSONValue } from '../types/cuimpTypes'
+import { CuimpParseError } from '../types/cuimpErrors'
+
+/**
+ * Purpose: Newline-delimited JSON (NDJSON / JSON Lines) response bodies.
+ * Caller: CuimpHttp.ndjson().
+ * Dependencies: TextDecoder.
+ * Main Functions: parseNdjson.
+ * Side Effects: None; consumes the given source.
+ */
+
+/**
+ * Parses a chunked byte stream as NDJSON, yielding one value per line. Lines and UTF-8
+ * sequences may be split across chunks; CRLF endings and blank lines are accepted.
+ * An invalid line throws CuimpParseError with its 1-based line number.
+ */
+export async function* parseNdjson<T = JSONValue>(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder('utf-8')
+  let buffer = ''
+  let lineNumber = 0
+
+  const parseLine = (line: string): T | undefined => {
+    lineNumber++
+    const text = line.endsWith('\r') ? line.slice(0, -1) : line
+    if (text.trim() === '') return undefined
+    try {
+      return JSON.parse(text) as T
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new CuimpParseError(`Invalid JSON on line ${lineNumber}: ${reason}`, text, lineNumber, {
+        cause: error,
+      })
+    }
+  }
+
+  for await (const chunk of source) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      const value = parseLine(buffer.slice(0, newline))
+      buffer = buffer.slice(newline + 1)
+      if (value !== undefined) yield value
+      newline = buffer.indexOf('\n')
+    }
+  }
+
+  // Last line without a trailing newline
+  buffer += decoder.decode()
+  if (buffer !== '') {
+    const value = parseLine(buffer)
+    if (value !== undefined) yield value
+  }
+}
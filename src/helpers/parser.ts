@@ -1,8 +1,45 @@
 import { BROWSER_LIST, ARCHITECTURE_LIST, PLATFORM_LIST } from '../constants/cuimpConstants'
 import { HTTP_STATUS_MAP } from '../constants/httpConstants'
-import { CuimpDescriptorInput, BinaryInfo, Logger } from '../types/cuimpTypes'
-import { resolveBinaryTarget } from './descriptorNormalize'
+import { METRICS_MARKER_END, METRICS_MARKER_START } from '../constants/requestConstants'
+import {
+  CuimpDescriptorInput,
+  BinaryInfo,
+  Logger,
+  CuimpRedirect,
+  CuimpResponseMeta,
+  CuimpTimings,
+  CuimpInstalledBinary,
+} from '../types/cuimpTypes'
+import {
+  normalizeDescriptor,
+  normalizeReleaseTag,
+  resolveBinaryTarget,
+} from './descriptorNormalize'
+import { resolveImpersonateCommand } from './impersonate'
+import {
+  compareBrowserVersions,
+  compareTargets,
+  parseBinaryName,
+  resolveTargetRelease,
+} from './targets'
+import { CuimpHeaders, CuimpResponseHeaders } from './headers'
 import { getLatestRelease } from './connector'
+import { LOCKFILE_NAME, readLockfile, sha256, verifyAssetIntegrity } from './integrity'
+import {
+  assetTriple,
+  CacheManifest,
+  getInstallDir,
+  listCacheEntries,
+  readInstallManifest,
+  writeInstallManifest,
+} from './cache'
+import {
+  expandMirrorUrl,
+  releaseFromAssetName,
+  resolveBinarySource,
+  ResolvedBinarySource,
+} from './binarySource'
+import { isProcessAlive, withFileLock } from './lock'
 
 export { resolveBinaryTarget } from './descriptorNormalize'
 import fs from 'fs'
@@ -15,9 +52,10 @@ import { execSync } from 'child_process'
 /**
  * Purpose: Detect host platform and manage curl-impersonate binary lookup/download.
  * Caller: parseDescriptor() callers from cuimp/client public APIs.
- * Dependencies: fs, path, os, tar extraction, GitHub release connector, descriptor normalization.
- * Main Functions: getSystemInfo, parseDescriptor, buildDownloadAssetName, resolveBinaryTarget.
- * Side Effects: Reads host filesystem, downloads release assets, writes binaries under user home.
+ * Dependencies: fs, path, os, tar extraction, GitHub release connector, integrity (lockfile),
+ * lock (concurrent downloads).
+ * Main Functions: getSystemInfo, parseDescriptor, buildDownloadAssetName, listInstalledBinaries.
+ * Side Effects: Reads host filesystem, downloads release assets, writes binaries to the cache.
  */
 
 /**
@@ -147,13 +185,67 @@ interface DownloadResult {
   version: string
 }
 
+interface DownloadOptions {
+  /** Release tag to download instead of the latest stable one */
+  release?: string
+  /** Lockfile holding the expected archive checksums */
+  lockfile?: string
+  createLockfile?: boolean
+  /** Record archives that could not be verified in the lockfile */
+  allowUnverified?: boolean
+  /** GitHub (default), a mirror or a local archive */
+  source?: ResolvedBinarySource
+  /** Replace an existing install of the same release */
+  force?: boolean
+  /** Mobile profile of the requested target (curl_safari260_ios) */
+  variant?: string
+}
+
+/**
+ * Extracts the browser version from a wrapper filename ("0" when there is none)
+ * Examples: "curl_chrome136" -> "136", "curl_safari260_ios" -> "260"
+ */
+const extractBrowserVersion = (filename: string): string =>
+  parseBinaryName(filename)?.version ?? '0'
+
+/**
+ * Release of a cache install directory (or its Windows bin/ subdirectory);
+ * null for binaries cuimp did not download
+ */
+const readInstallRelease = (dir: string): string | null =>
+  (readInstallManifest(dir) ?? readInstallManifest(path.dirname(dir)))?.release ?? null
+
 /**
- * Extracts version number from filename
- * Examples: "curl_chrome136" -> 136, "curl_firefox120" -> 120
+ * Directories searched for binaries, in order of preference: cache installs (newest
+ * release first, only `target`'s platform/architecture when given), then the legacy
+ * ~/.cuimp/binaries, package and system directories
  */
-const extractVersionNumber = (filename: string): number => {
-  const match = filename.match(/(\d+)/)
-  return match ? parseInt(match[1], 10) : 0
+const getBinarySearchPaths = (target?: { platform: string; architecture: string }): string[] => {
+  // Get the user's home directory for binaries (primary location)
+  const homeDir = os.homedir()
+  const homeBinariesDir = path.resolve(homeDir, '.cuimp', 'binaries')
+
+  // Get the package binaries directory dynamically (fallback)
+  const packageDir = getPackageDir()
+  const packageBinariesDir = path.resolve(packageDir, 'cuimp/binaries')
+
+  // On Windows, binaries are extracted to a 'bin' subdirectory
+  const isWindows = process.platform === 'win32'
+  const cacheDirs = listCacheEntries()
+    .filter(
+      entry =>
+        !target ||
+        (entry.platform === target.platform && entry.architecture === target.architecture)
+    )
+    .flatMap(entry => [entry.path, ...(isWindows ? [path.resolve(entry.path, 'bin')] : [])])
+  return [
+    ...cacheDirs,
+    homeBinariesDir,
+    ...(isWindows ? [path.resolve(homeBinariesDir, 'bin')] : []),
+    packageBinariesDir,
+    ...(isWindows ? [path.resolve(packageBinariesDir, 'bin')] : []),
+    ...BINARY_SEARCH_PATHS,
+  ]
 }
 
 /**
@@ -180,34 +272,33 @@ const validateParameters = (browser: string, architecture: string, platform: str
 }
 
 /**
- * Searches for existing curl-impersonate binary with a specific version
+ * Mobile profile suffix of a wrapper name (curl_safari260_ios.bat -> "ios")
  */
-const findBinaryWithVersion = (browser: string, version: string): string | null => {
-  // Get the user's home directory for binaries (primary location)
-  const homeDir = os.homedir()
-  const homeBinariesDir = path.resolve(homeDir, '.cuimp', 'binaries')
-
-  // Get the package binaries directory dynamically (fallback)
-  const packageDir = getPackageDir()
-  const packageBinariesDir = path.resolve(packageDir, 'cuimp/binaries')
+const wrapperVariant = (filename: string): string | undefined =>
+  /_(ios|android)(?:\.bat|\.exe|\.sh)?$/i.exec(filename)?.[1]?.toLowerCase()
 
-  // On Windows, binaries are extracted to a 'bin' subdirectory
+/**
+ * Searches for existing curl-impersonate binary with a specific version
+ * (only binaries downloaded from `release` when one is pinned; `searchPaths` defaults to
+ * the home, package and system directories; `variant` selects the mobile wrapper)
+ */
+const findBinaryWithVersion = (
+  browser: string,
+  version: string,
+  release?: string,
+  searchPaths: string[] = getBinarySearchPaths(),
+  variant?: string
+): string | null => {
   const isWindows = process.platform === 'win32'
-  const searchPaths = [
-    homeBinariesDir,
-    ...(isWindows ? [path.resolve(homeBinariesDir, 'bin')] : []),
-    packageBinariesDir,
-    ...(isWindows ? [path.resolve(packageBinariesDir, 'bin')] : []),
-    ...BINARY_SEARCH_PATHS,
-  ]
 
-  // Look for browser-specific binary with version (e.g., curl_chrome136)
-  const versionPattern = `curl_${browser}${version}`
+  // Look for browser-specific binary with version (e.g., curl_chrome136, curl_safari260_ios)
+  const versionPattern = `curl_${browser}${version}${variant ? `_${variant}` : ''}`
   const versionPatterns = isWindows
     ? [`${versionPattern}.exe`, `${versionPattern}.bat`, versionPattern]
     : [versionPattern]
 
   for (const searchPath of searchPaths) {
+    if (release && readInstallRelease(searchPath) !== release) continue
     for (const pattern of versionPatterns) {
       try {
         const fullPath = path.join(searchPath, pattern)
@@ -226,8 +317,16 @@ const findBinaryWithVersion = (browser: string, version: string): string | null
 
 /**
  * Searches for existing curl-impersonate binary in system paths
+ * (only binaries downloaded from `release` when one is pinned; `searchPaths` defaults to
+ * the home, package and system directories). Mobile wrappers (curl_safari260_ios) are only
+ * returned for their `variant`, and a variant never falls back to the generic binary.
  */
-const findExistingBinary = (browser: string = ''): string | null => {
+const findExistingBinary = (
+  browser: string = '',
+  release?: string,
+  searchPaths: string[] = getBinarySearchPaths(),
+  variant?: string
+): string | null => {
   // Filter patterns based on browser if specified
   // Also filter out Windows-specific patterns (.bat, .exe) on non-Windows systems
   const isWindows = process.platform === 'win32'
@@ -252,6 +351,7 @@ const findExistingBinary = (browser: string = ''): string | null => {
         })
       : BINARY_PATTERNS
   ).filter(pattern => {
+    if (variant && !pattern.includes('*')) return false
     // On non-Windows systems, exclude .bat and .exe patterns
     if (!isWindows) {
       return !pattern.endsWith('.bat') && !pattern.endsWith('.exe')
@@ -259,25 +359,8 @@ const findExistingBinary = (browser: string = ''): string | null => {
     return true
   })
 
-  // Get the user's home directory for binaries (primary location)
-  const homeDir = os.homedir()
-  const homeBinariesDir = path.resolve(homeDir, '.cuimp', 'binaries')
-
-  // Get the package binaries directory dynamically (fallback)
-  const packageDir = getPackageDir()
-  const packageBinariesDir = path.resolve(packageDir, 'cuimp/binaries')
-
-  // On Windows, binaries are extracted to a 'bin' subdirectory
-  // Create search paths including both directories and Windows-specific bin subdirectory
-  const searchPaths = [
-    homeBinariesDir,
-    ...(isWindows ? [path.resolve(homeBinariesDir, 'bin')] : []),
-    packageBinariesDir,
-    ...(isWindows ? [path.resolve(packageBinariesDir, 'bin')] : []),
-    ...BINARY_SEARCH_PATHS,
-  ]
-
   for (const searchPath of searchPaths) {
+    if (release && readInstallRelease(searchPath) !== release) continue
     for (const pattern of patternsToSearch) {
       try {
         // Handle glob patterns
@@ -288,6 +371,7 @@ const findExistingBinary = (browser: string = ''): string | null => {
             if (!isWindows && file.toLowerCase().endsWith('.bat')) {
               return false
             }
+            if (wrapperVariant(file) !== variant) return false
             const regex = new RegExp(pattern.replace('*', '.*'))
             return regex.test(file)
           })
@@ -295,12 +379,10 @@ const findExistingBinary = (browser: string = ''): string | null => {
           if (matchingFiles.length > 0) {
             // If multiple matches, find the highest version
             if (matchingFiles.length > 1) {
-              const sortedFiles = matchingFiles.sort((a, b) => {
-                // Extract version numbers from filenames
-                const versionA = extractVersionNumber(a)
-                const versionB = extractVersionNumber(b)
-                return versionB - versionA // Sort in descending order (highest first)
-              })
+              const sortedFiles = matchingFiles.sort((a, b) =>
+                // Sort in descending order (highest first)
+                compareBrowserVersions(extractBrowserVersion(b), extractBrowserVersion(a))
+              )
               const bestMatch = sortedFiles[0]
               const fullPath = path.join(searchPath, bestMatch)
               // Skip .bat files on non-Windows systems
@@ -388,6 +470,100 @@ export const buildDownloadAssetName = (
   return `curl-impersonate-${latestVersion}.${architecture}-${platform}.tar.gz`
 }
 
+/**
+ * In-flight installs by install directory, so concurrent parseDescriptor() calls in one
+ * process share a single download
+ */
+const pendingInstalls = new Map<string, Promise<void>>()
+
+/**
+ * Extracts a release archive into a staging directory next to its install directory and
+ * renames it into place, so other processes never see a half-extracted install.
+ * Must be called while holding the install directory's lock.
+ */
+const installArchive = async (
+  installDir: string,
+  buffer: Buffer,
+  manifest: Omit<CacheManifest, 'sha256' | 'installedAt'>,
+  logger: Logger
+): Promise<void> => {
+  const parentDir = path.dirname(installDir)
+  const stagingPrefix = `.${path.basename(installDir)}.tmp-`
+  fs.mkdirSync(parentDir, { recursive: true })
+
+  // Leftovers from workers that died mid-extraction; the PID is part of the name
+  try {
+    for (const name of fs.readdirSync(parentDir)) {
+      if (!name.startsWith(stagingPrefix)) continue
+      const pid = parseInt(name.slice(stagingPrefix.length), 10)
+      if (Number.isNaN(pid) || isProcessAlive(pid)) continue
+      fs.rmSync(path.join(parentDir, name), { recursive: true, force: true })
+    }
+  } catch {
+    // Nothing to clean up
+  }
+
+  const stagingDir = path.join(parentDir, `${stagingPrefix}${process.pid}-${Date.now()}`)
+  fs.mkdirSync(stagingDir, { recursive: true })
+
+  try {
+    const tempFileName = path.resolve(stagingDir, manifest.asset)
+    fs.writeFileSync(tempFileName, buffer)
+
+    logger.info(`Extracting ${tempFileName} to ${installDir}...`)
+    await extract({
+      file: tempFileName,
+      cwd: stagingDir,
+    })
+    fs.unlinkSync(tempFileName)
+
+    // On Windows, download CA bundle if not present (required for SSL verification)
+    if (manifest.platform === 'windows') {
+      const binDir = fs.existsSync(path.join(stagingDir, 'bin'))
+        ? path.join(stagingDir, 'bin')
+        : stagingDir
+      const caBundlePath = path.join(binDir, 'curl-ca-bundle.crt')
+      if (!fs.existsSync(caBundlePath)) {
+        logger.info('Downloading CA certificate bundle for Windows...')
+        try {
+          const caResponse = await fetch('https://curl.se/ca/cacert.pem')
+          if (caResponse.ok) {
+            const caBundle = await caResponse.text()
+            fs.writeFileSync(caBundlePath, caBundle)
+            logger.info(`CA bundle saved to ${caBundlePath}`)
+          } else {
+            logger.warn('Failed to download CA bundle - SSL verification may fail')
+          }
+        } catch (caError) {
+          logger.warn(
+            `Failed to download CA bundle: ${caError instanceof Error ? caError.message : String(caError)}`
+          )
+        }
+      }
+    }
+
+    // Describe the install for Cuimp.cache and release-pinned lookups
+    writeInstallManifest(stagingDir, {
+      ...manifest,
+      sha256: sha256(buffer),
+      installedAt: new Date().toISOString(),
+    })
+
+    // Swap the finished install into place (forceDownload replaces an existing one)
+    if (fs.existsSync(installDir)) {
+      const previousDir = `${stagingDir}.old`
+      fs.renameSync(installDir, previousDir)
+      fs.renameSync(stagingDir, installDir)
+      fs.rmSync(previousDir, { recursive: true, force: true })
+    } else {
+      fs.renameSync(stagingDir, installDir)
+    }
+  } catch (error) {
+    fs.rmSync(stagingDir, { recursive: true, force: true })
+    throw error
+  }
+}
+
 /**
  * Downloads and extracts curl-impersonate binary
  */
@@ -396,50 +572,98 @@ const downloadAndExtractBinary = async (
   architecture: string,
   platform: string,
   version: string,
-  logger: Logger
+  logger: Logger,
+  options: DownloadOptions = {}
 ): Promise<DownloadResult> => {
   try {
-    // Get latest release info
-    const latestVersion: string = await getLatestRelease()
-    const actualVersion: string =
-      version === 'latest' ? latestVersion.replace(/^v/, '') : version.replace(/^v/, '')
-
-    const assetName = buildDownloadAssetName(latestVersion, architecture, platform)
-    const downloadUrl = `https://github.com/lexiforest/curl-impersonate/releases/download/${latestVersion}/${assetName}`
-
-    // Download the binary
-    logger.info(`Downloading ${downloadUrl}...`)
-    const response = await fetch(downloadUrl)
+    const source = options.source ?? { kind: 'github' }
+    const mirror = source.kind === 'mirror' ? source.template : undefined
+
+    let latestVersion: string
+    let assetName: string
+    let fetchArchive: () => Promise<Buffer>
+
+    if (source.kind === 'archive') {
+      // Local release archive: nothing is fetched
+      assetName = path.basename(source.path)
+      const archiveRelease = releaseFromAssetName(assetName)
+      latestVersion =
+        options.release ?? (archiveRelease ? normalizeReleaseTag(archiveRelease) : 'local')
+      fetchArchive = () => {
+        logger.info(`Using local archive ${source.path}...`)
+        return Promise.resolve(fs.readFileSync(source.path))
+      }
+    } else {
+      // Use the pinned release, otherwise the latest one
+      latestVersion = options.release ?? (await getLatestRelease(mirror))
+      assetName = buildDownloadAssetName(latestVersion, architecture, platform)
+      const downloadUrl = mirror
+        ? expandMirrorUrl(mirror, latestVersion, assetName)
+        : `https://github.com/lexiforest/curl-impersonate/releases/download/${latestVersion}/${assetName}`
+
+      fetchArchive = async () => {
+        // Download the binary
+        logger.info(`Downloading ${downloadUrl}...`)
+        const response = await fetch(downloadUrl)
+
+        if (!response.ok) {
+          throw new Error(`Failed to download binary: ${response.status} ${response.statusText}`)
+        }
 
-    if (!response.ok) {
-      throw new Error(`Failed to download binary: ${response.status} ${response.statusText}`)
+        return Buffer.from(await response.arrayBuffer())
+      }
     }
 
-    const arrayBuffer = await response.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-
-    // Use user's home directory for binaries to avoid permission issues
-    const homeDir = os.homedir()
-    const binariesDir = path.resolve(homeDir, '.cuimp', 'binaries')
-
-    // Create binaries directory if it doesn't exist
-    if (!fs.existsSync(binariesDir)) {
-      fs.mkdirSync(binariesDir, { recursive: true })
-    }
+    const actualVersion: string =
+      version === 'latest' ? latestVersion.replace(/^v/, '') : version.replace(/^v/, '')
 
-    // Save to temporary file in the binaries directory
-    const tempFileName = path.resolve(binariesDir, `${browser}-${architecture}-${platform}.tar.gz`)
-    fs.writeFileSync(tempFileName, buffer)
+    // Each release/platform gets its own cache directory, e.g. ~/.cuimp/cache/v1.2.2/x86_64-linux-gnu
+    const binariesDir = getInstallDir(
+      latestVersion,
+      assetTriple(assetName, latestVersion) ?? `${architecture}-${platform}`
+    )
+    const requestedAt = Date.now()
+
+    // One download per install directory: callers in this process share the pending
+    // install, other processes wait on the lock file
+    let install = pendingInstalls.get(binariesDir)
+    if (!install) {
+      install = withFileLock(
+        `${binariesDir}.lock`,
+        async () => {
+          // Another process may have finished the install while we waited for the lock
+          const installed = readInstallManifest(binariesDir)
+          if (installed && (!options.force || Date.parse(installed.installedAt) >= requestedAt)) {
+            logger.debug?.(`Using ${binariesDir} installed by another process`)
+            return
+          }
 
-    // Extract the binary to the binaries directory
-    logger.info(`Extracting ${tempFileName} to ${binariesDir}...`)
-    await extract({
-      file: tempFileName,
-      cwd: binariesDir,
-    })
+          const buffer = await fetchArchive()
+
+          // Nothing is written to disk unless the archive matches the expected checksum
+          await verifyAssetIntegrity(buffer, {
+            release: latestVersion,
+            assetName,
+            lockfile: options.lockfile,
+            createLockfile: options.createLockfile,
+            allowUnverified: options.allowUnverified,
+            mirror,
+            offline: source.kind === 'archive',
+            logger,
+          })
 
-    // Clean up temporary file
-    fs.unlinkSync(tempFileName)
+          await installArchive(
+            binariesDir,
+            buffer,
+            { release: latestVersion, asset: assetName, platform, architecture },
+            logger
+          )
+        },
+        { logger }
+      ).finally(() => pendingInstalls.delete(binariesDir))
+      pendingInstalls.set(binariesDir, install)
+    }
+    await install
 
     // On Windows, binaries are extracted to a 'bin' subdirectory
     // On other platforms, they're extracted directly to binariesDir
@@ -452,19 +676,39 @@ const downloadAndExtractBinary = async (
     const browserSpecificPattern = `curl_${browser}*`
 
     let binaryPath: string | null = null
+    let shippedVersion = actualVersion
+
+    // A requested browser version or mobile profile needs its own wrapper
+    // (e.g. curl_chrome116, curl_safari260_ios)
+    if (version !== 'latest' || options.variant) {
+      binaryPath =
+        version !== 'latest'
+          ? findBinaryWithVersion(browser, actualVersion, undefined, searchDirs, options.variant)
+          : findExistingBinary(browser, undefined, searchDirs, options.variant)
+      if (!binaryPath) {
+        const requested = version !== 'latest' ? actualVersion : ''
+        const suffix = options.variant ? `_${options.variant}` : ''
+        throw new Error(
+          `curl-impersonate ${latestVersion} does not ship ${browser}${requested}${suffix}`
+        )
+      }
+      shippedVersion = extractBrowserVersion(path.basename(binaryPath))
+    }
 
-    // First, try to find the main binary (curl-impersonate)
-    for (const searchDir of searchDirs) {
-      if (!fs.existsSync(searchDir)) continue
+    // Otherwise, try to find the main binary (curl-impersonate)
+    if (!binaryPath) {
+      for (const searchDir of searchDirs) {
+        if (!fs.existsSync(searchDir)) continue
 
-      for (const mainBinaryName of mainBinaryNames) {
-        const candidatePath = path.resolve(searchDir, mainBinaryName)
-        if (fs.existsSync(candidatePath) && fs.statSync(candidatePath).isFile()) {
-          binaryPath = candidatePath
-          break
+        for (const mainBinaryName of mainBinaryNames) {
+          const candidatePath = path.resolve(searchDir, mainBinaryName)
+          if (fs.existsSync(candidatePath) && fs.statSync(candidatePath).isFile()) {
+            binaryPath = candidatePath
+            break
+          }
         }
+        if (binaryPath) break
       }
-      if (binaryPath) break
     }
 
     // If main binary not found, look for browser-specific binaries
@@ -480,11 +724,10 @@ const downloadAndExtractBinary = async (
 
         if (matchingFiles.length > 0) {
           // Use the highest version browser-specific binary
-          const sortedFiles = matchingFiles.sort((a, b) => {
-            const versionA = extractVersionNumber(a)
-            const versionB = extractVersionNumber(b)
-            return versionB - versionA // Sort in descending order (highest first)
-          })
+          const sortedFiles = matchingFiles.sort((a, b) =>
+            // Sort in descending order (highest first)
+            compareBrowserVersions(extractBrowserVersion(b), extractBrowserVersion(a))
+          )
           const bestMatch = sortedFiles[0]
           binaryPath = path.resolve(searchDir, bestMatch)
           break
@@ -509,32 +752,9 @@ const downloadAndExtractBinary = async (
       }
     }
 
-    // On Windows, download CA bundle if not present (required for SSL verification)
-    if (platform === 'windows') {
-      const binDir = path.dirname(binaryPath)
-      const caBundlePath = path.join(binDir, 'curl-ca-bundle.crt')
-      if (!fs.existsSync(caBundlePath)) {
-        logger.info('Downloading CA certificate bundle for Windows...')
-        try {
-          const caResponse = await fetch('https://curl.se/ca/cacert.pem')
-          if (caResponse.ok) {
-            const caBundle = await caResponse.text()
-            fs.writeFileSync(caBundlePath, caBundle)
-            logger.info(`CA bundle saved to ${caBundlePath}`)
-          } else {
-            logger.warn('Failed to download CA bundle - SSL verification may fail')
-          }
-        } catch (caError) {
-          logger.warn(
-            `Failed to download CA bundle: ${caError instanceof Error ? caError.message : String(caError)}`
-          )
-        }
-      }
-    }
-
     return {
       binaryPath: binaryPath,
-      version: actualVersion,
+      version: shippedVersion,
     }
   } catch (error) {
     throw new Error(
@@ -606,13 +826,25 @@ export const getSystemInfo = (): { architecture: string; platform: string } => {
   }
 }
 
+/**
+ * Records the --impersonate target when the release's single binary can select the
+ * fingerprint directly (curl-impersonate 1.x); older releases go through the wrapper.
+ */
+const withImpersonateTarget = async (info: BinaryInfo): Promise<BinaryInfo> => {
+  const direct = await resolveImpersonateCommand(info.binaryPath)
+  return direct
+    ? { ...info, impersonateTarget: direct.target, impersonateBinary: direct.binaryPath }
+    : info
+}
+
 /**
  * Main function to parse descriptor and get binary information
  */
 export const parseDescriptor = async (
   descriptor: CuimpDescriptorInput,
   logger: Logger = console,
-  autoDownload: boolean = true
+  autoDownload: boolean = true,
+  binarySource?: string
 ): Promise<BinaryInfo> => {
   try {
     const host = getSystemInfo()
@@ -624,17 +856,47 @@ export const parseDescriptor = async (
     const browser = descriptor.browser || 'chrome'
     const version = descriptor.version || 'latest'
     const forceDownload = descriptor.forceDownload || false
+    // Mobile profile (safari260_ios): picks the _ios wrapper, the host platform is unchanged
+    const variant = normalizeDescriptor(descriptor).variant
+    const target = `${browser}${version !== 'latest' ? version : ''}${variant ? `_${variant}` : ''}`
 
     // Validate parameters
     validateParameters(browser, architecture, platform)
 
+    const source = resolveBinarySource(binarySource)
+
+    // Pre-extracted binaries: use them as-is, never download
+    if (source.kind === 'directory') {
+      const searchPaths = [source.path, path.resolve(source.path, 'bin')]
+      const binary =
+        version !== 'latest'
+          ? findBinaryWithVersion(browser, version, undefined, searchPaths, variant)
+          : findExistingBinary(browser, undefined, searchPaths, variant)
+      if (!binary) {
+        throw new Error(`Binary not found for ${target} in binary source ${source.path}`)
+      }
+      logger.debug?.(`Using binary from binary source: ${binary}`)
+      return await withImpersonateTarget({
+        binaryPath: binary,
+        isDownloaded: false,
+        version: extractBrowserVersion(path.basename(binary)),
+      })
+    }
+
+    // An explicit release wins; otherwise the lockfile (if any) pins the release
+    const lockfile = path.resolve(descriptor.lockfile ?? LOCKFILE_NAME)
+    const release = descriptor.release
+      ? normalizeReleaseTag(descriptor.release)
+      : readLockfile(lockfile)?.release
+
     // Check for existing binary unless forceDownload is enabled
     if (!forceDownload) {
-      const existingBinary = findExistingBinary(browser)
+      const searchPaths = getBinarySearchPaths({ platform, architecture })
+      const existingBinary = findExistingBinary(browser, release, searchPaths, variant)
       if (existingBinary) {
         // Extract browser version from filename (e.g., curl_chrome136 -> 136)
         // Note: This is the browser version, not the curl-impersonate release version
-        const browserVersion = extractVersionNumber(path.basename(existingBinary)).toString()
+        const browserVersion = extractBrowserVersion(path.basename(existingBinary))
 
         // Check if the existing binary version matches the requested version
         // If version is specified and doesn't match, check if correct version exists first
@@ -642,19 +904,23 @@ export const parseDescriptor = async (
           const requestedVersion = version.toString()
           if (browserVersion !== requestedVersion) {
             // First, check if the requested version binary already exists
-            const requestedBinary = findBinaryWithVersion(browser, requestedVersion)
+            const requestedBinary = findBinaryWithVersion(
+              browser,
+              requestedVersion,
+              release,
+              searchPaths,
+              variant
+            )
             if (requestedBinary) {
               logger.debug?.(
                 `Found existing binary ${existingBinary} (version ${browserVersion}), but requested version ${requestedVersion}. Using existing ${requestedVersion} binary.`
               )
-              const requestedBrowserVersion = extractVersionNumber(
-                path.basename(requestedBinary)
-              ).toString()
-              return {
+              const requestedBrowserVersion = extractBrowserVersion(path.basename(requestedBinary))
+              return await withImpersonateTarget({
                 binaryPath: requestedBinary,
                 isDownloaded: false,
                 version: requestedBrowserVersion || 'unknown',
-              }
+              })
             }
             // Requested version doesn't exist, need to download
             logger.debug?.(
@@ -664,20 +930,20 @@ export const parseDescriptor = async (
           } else {
             // Version matches, use existing binary
             logger.debug?.(`Found existing binary: ${existingBinary} (version ${browserVersion})`)
-            return {
+            return await withImpersonateTarget({
               binaryPath: existingBinary,
               isDownloaded: false,
               version: browserVersion || 'unknown',
-            }
+            })
           }
         } else {
           // No version specified or 'latest', accept any existing binary
           logger.debug?.(`Found existing binary: ${existingBinary} (version ${browserVersion})`)
-          return {
+          return await withImpersonateTarget({
             binaryPath: existingBinary,
             isDownloaded: false,
             version: browserVersion || 'unknown',
-          }
+          })
         }
       }
     } else {
@@ -693,6 +959,16 @@ export const parseDescriptor = async (
       )
     }
 
+    // A specific browser version comes from the release that ships it, unless one is pinned
+    let downloadRelease = release
+    if (!downloadRelease && version !== 'latest' && source.kind !== 'archive') {
+      downloadRelease = await resolveTargetRelease(target, {
+        mirror: source.kind === 'mirror' ? source.template : undefined,
+        logger,
+      })
+      logger.debug?.(`${target} ships with curl-impersonate ${downloadRelease}`)
+    }
+
     // Download binary if not found, version mismatch, or forceDownload enabled
     logger.info(`Downloading curl-impersonate for ${browser} on ${platform}-${architecture}...`)
 
@@ -701,14 +977,23 @@ export const parseDescriptor = async (
       architecture,
       platform,
       version,
-      logger
+      logger,
+      {
+        release: downloadRelease,
+        lockfile,
+        createLockfile: descriptor.lockfile !== undefined,
+        allowUnverified: descriptor.allowUnverified,
+        source,
+        force: forceDownload,
+        variant,
+      }
     )
 
-    return {
+    return await withImpersonateTarget({
       binaryPath: downloadResult.binaryPath,
       isDownloaded: true,
       version: downloadResult.version,
-    }
+    })
   } catch (error) {
     throw new Error(
       `Failed to parse descriptor: ${error instanceof Error ? error.message : String(error)}`
@@ -716,6 +1001,56 @@ export const parseDescriptor = async (
   }
 }
 
+/**
+ * Lists the wrapper binaries (curl_chrome136, ...) found in the binary cache, ~/.cuimp/binaries,
+ * the package binaries directory and the system search paths, newest version first per browser
+ */
+export const listInstalledBinaries = (): CuimpInstalledBinary[] => {
+  const isWindows = process.platform === 'win32'
+  const hostPlatform = getSystemInfo().platform
+  const seen = new Set<string>()
+  const installed: CuimpInstalledBinary[] = []
+
+  for (const searchPath of getBinarySearchPaths()) {
+    const dir = path.resolve(searchPath)
+    if (seen.has(dir)) continue
+    seen.add(dir)
+
+    let files: string[]
+    try {
+      files = fs.readdirSync(dir)
+    } catch {
+      // Directory doesn't exist or is not accessible
+      continue
+    }
+
+    const release = readInstallRelease(dir)
+
+    for (const file of files) {
+      // .bat wrappers only run on Windows
+      if (!isWindows && file.toLowerCase().endsWith('.bat')) continue
+      const parsed = parseBinaryName(file)
+      if (!parsed) continue
+      const fullPath = path.join(dir, file)
+      try {
+        if (!fs.statSync(fullPath).isFile()) continue
+      } catch {
+        continue
+      }
+      installed.push({
+        target: parsed.target,
+        browser: parsed.browser,
+        version: parsed.version,
+        path: fullPath,
+        release,
+        platform: parsed.platform ?? hostPlatform,
+      })
+    }
+  }
+
+  return installed.sort(compareTargets)
+}
+
 /**
  * Legacy function for backward compatibility
  */
@@ -745,13 +1080,15 @@ export function getStatusText(status: number, providedText?: string): string {
 export interface ParsedHttpHeaders {
   status: number
   statusText: string
-  headers: Record<string, string>
+  headers: CuimpResponseHeaders
 }
 
 export interface HttpResponseStreamParser {
   push(chunk: Buffer): Promise<void>
   finish(): Promise<void>
   response: ParsedHttpHeaders | null
+  /** Redirect header blocks seen before the final response (in order) */
+  redirects: ParsedHttpHeaders[]
 }
 
 /**
@@ -764,19 +1101,51 @@ export function parseHttpHeaderBlock(headerText: string): ParsedHttpHeaders {
   const status = m ? parseInt(m[1], 10) : 200
   const statusText = getStatusText(status, m?.[2])
 
-  const headers: Record<string, string> = {}
+  const headers = CuimpHeaders.from()
   for (const line of headerLines) {
     const idx = line.indexOf(':')
     if (idx > 0) {
-      const k = line.slice(0, idx).trim().toLowerCase()
+      const k = line.slice(0, idx).trim()
       const v = line.slice(idx + 1).trim()
-      headers[k] = v
+      headers.append(k, v)
     }
   }
 
   return { status, statusText, headers }
 }
 
+/**
+ * True for intermediate header blocks produced by curl --location (3xx with Location).
+ * Informational (1xx) and proxy CONNECT blocks are not redirects.
+ */
+function isRedirectBlock(block: ParsedHttpHeaders): boolean {
+  return block.status >= 300 && block.status < 400 && !!block.headers['location']
+}
+
+/**
+ * Resolves the URL of every redirect hop and the final URL, starting from the request URL.
+ * Each hop's `url` is the URL that answered with that redirect.
+ */
+export function buildRedirectChain(
+  startUrl: string,
+  blocks: ParsedHttpHeaders[]
+): { redirects: CuimpRedirect[]; url: string } {
+  let current = startUrl
+  const redirects: CuimpRedirect[] = []
+
+  for (const block of blocks) {
+    redirects.push({ ...block, url: current })
+    const location = block.headers['location']
+    try {
+      current = new URL(location, current).toString()
+    } catch {
+      current = location
+    }
+  }
+
+  return { redirects, url: current }
+}
+
 function findHeaderSeparator(buf: Buffer): {
   index: number
   length: number
@@ -791,6 +1160,11 @@ function findHeaderSeparator(buf: Buffer): {
   return { index: sep2, length: 2 }
 }
 
+function couldStartStatusLine(buf: Buffer): boolean {
+  const prefix = buf.subarray(0, 5).toString('latin1')
+  return 'HTTP/'.startsWith(prefix)
+}
+
 /**
  * Incrementally parses curl stdout (with -i) into headers and body chunks.
  */
@@ -815,6 +1189,7 @@ export function createHttpResponseStreamParser(
 ): HttpResponseStreamParser {
   let buffer = Buffer.alloc(0)
   let response: ParsedHttpHeaders | null = null
+  const redirects: ParsedHttpHeaders[] = []
   let state: 'headers' | 'maybe-headers' | 'body' = 'headers'
   let headersEmitted = false
 
@@ -844,13 +1219,14 @@ export function createHttpResponseStreamParser(
     let processing = true
     while (processing) {
       if (state === 'maybe-headers') {
-        // Need at least 13 bytes to check for HTTP status line (minimum: "HTTP/1.1 200")
-        if (buffer.length < 13) {
+        // Need at least 13 bytes to check for HTTP status line (minimum: "HTTP/1.1 200"),
+        // but only wait while the data could still be the start of one
+        if (buffer.length < 13 && couldStartStatusLine(buffer)) {
           processing = false
           return
         }
         // Use stricter detection: require full status line pattern, not just "HTTP/"
-        if (isHttpStatusLine(buffer)) {
+        if (buffer.length >= 13 && isHttpStatusLine(buffer)) {
           state = 'headers'
           continue
         }
@@ -872,6 +1248,9 @@ export function createHttpResponseStreamParser(
       }
 
       const headerBuf = buffer.slice(0, sep.index)
+      if (response && isRedirectBlock(response)) {
+        redirects.push(response)
+      }
       response = parseHttpHeaderBlock(headerBuf.toString('utf8'))
       buffer = buffer.slice(sep.index + sep.length)
       state = 'maybe-headers'
@@ -901,6 +1280,7 @@ export function createHttpResponseStreamParser(
     get response() {
       return response
     },
+    redirects,
   }
 }
 
@@ -911,8 +1291,10 @@ export function createHttpResponseStreamParser(
 export function parseHttpResponse(stdoutBuf: Buffer): {
   status: number
   statusText: string
-  headers: Record<string, string>
+  headers: CuimpResponseHeaders
   body: Buffer
+  /** Redirect header blocks that preceded the final response */
+  redirects: ParsedHttpHeaders[]
 } {
   if (!isHttpStatusLine(stdoutBuf)) {
     const previewText = stdoutBuf.toString('utf8', 0, Math.min(500, stdoutBuf.length))
@@ -921,6 +1303,7 @@ export function parseHttpResponse(stdoutBuf: Buffer): {
 
   let offset = 0
   let response: ParsedHttpHeaders | null = null
+  const redirects: ParsedHttpHeaders[] = []
 
   while (offset < stdoutBuf.length) {
     const remaining = stdoutBuf.subarray(offset)
@@ -928,6 +1311,10 @@ export function parseHttpResponse(stdoutBuf: Buffer): {
       break
     }
 
+    if (response && isRedirectBlock(response)) {
+      redirects.push(response)
+    }
+
     const separator = findHeaderSeparator(remaining)
     if (!separator) {
       response = parseHttpHeaderBlock(remaining.toString('utf8'))
@@ -936,6 +1323,7 @@ export function parseHttpResponse(stdoutBuf: Buffer): {
         statusText: response.statusText,
         headers: response.headers,
         body: Buffer.alloc(0),
+        redirects,
       }
     }
 
@@ -958,5 +1346,78 @@ export function parseHttpResponse(stdoutBuf: Buffer): {
     statusText: response.statusText,
     headers: response.headers,
     body: stdoutBuf.subarray(offset),
+    redirects,
+  }
+}
+
+interface CurlWriteOutJson {
+  time_namelookup?: number
+  time_connect?: number
+  time_appconnect?: number
+  time_starttransfer?: number
+  time_redirect?: number
+  time_total?: number
+  remote_ip?: string
+  remote_port?: number
+  http_version?: string
+  size_download?: number
+  size_upload?: number
+  speed_download?: number
+  num_redirects?: number
+  url_effective?: string
+}
+
+const secondsToMs = (value?: number): number =>
+  typeof value === 'number' ? Math.round(value * 1_000_000) / 1000 : 0
+
+/**
+ * Extracts the --write-out metrics block (see METRICS_WRITE_OUT) from curl stderr.
+ * Returns the parsed timings/meta when present and stderr with the block removed.
+ */
+export function extractResponseMetrics(stderr: Buffer): {
+  timings?: CuimpTimings
+  meta?: CuimpResponseMeta
+  stderr: Buffer
+} {
+  const start = stderr.indexOf(METRICS_MARKER_START)
+  if (start === -1) return { stderr }
+  const end = stderr.indexOf(METRICS_MARKER_END, start)
+  if (end === -1) return { stderr }
+
+  // Drop the block together with the newlines written around it
+  const blockStart = start > 0 && stderr[start - 1] === 0x0a ? start - 1 : start
+  let blockEnd = end + METRICS_MARKER_END.length
+  if (stderr[blockEnd] === 0x0a) blockEnd++
+  const cleaned = Buffer.concat([stderr.subarray(0, blockStart), stderr.subarray(blockEnd)])
+
+  let json: CurlWriteOutJson
+  try {
+    json = JSON.parse(
+      stderr.subarray(start + METRICS_MARKER_START.length, end).toString('utf8')
+    ) as CurlWriteOutJson
+  } catch {
+    return { stderr: cleaned }
+  }
+
+  return {
+    timings: {
+      dns: secondsToMs(json.time_namelookup),
+      connect: secondsToMs(json.time_connect),
+      tls: secondsToMs(json.time_appconnect),
+      firstByte: secondsToMs(json.time_starttransfer),
+      redirect: secondsToMs(json.time_redirect),
+      total: secondsToMs(json.time_total),
+    },
+    meta: {
+      remoteIp: json.remote_ip || undefined,
+      remotePort: json.remote_port || undefined,
+      httpVersion: json.http_version || undefined,
+      bytesDownloaded: json.size_download ?? 0,
+      bytesUploaded: json.size_upload ?? 0,
+      downloadSpeed: json.speed_download ?? 0,
+      redirectCount: json.num_redirects ?? 0,
+      effectiveUrl: json.url_effective || undefined,
+    },
+    stderr: cleaned,
   }
 }
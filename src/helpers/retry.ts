@@ -0,0 +1,137 @@
+import type { CuimpRetryContext, CuimpRetryOptions, Method } from '../types/cuimpTypes'
+import { CurlError, CurlExitCode } from '../types/curlErrors'
+
+/**
+ * Purpose: Retry policy (exponential backoff, jitter, Retry-After) for CuimpHttp.request().
+ * Caller: CuimpHttp request dispatch loop.
+ * Dependencies: CurlError/CurlExitCode, request config types.
+ * Main Functions: resolveRetryOptions, getRetryDelay, parseRetryAfter, sleep.
+ * Side Effects: Timers only.
+ */
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+
+export const DEFAULT_RETRY_EXIT_CODES: CurlExitCode[] = [
+  CurlExitCode.COULDNT_CONNECT,
+  CurlExitCode.OPERATION_TIMEDOUT,
+  CurlExitCode.SEND_ERROR,
+  CurlExitCode.RECV_ERROR,
+  CurlExitCode.GOT_NOTHING,
+  CurlExitCode.PARTIAL_FILE,
+]
+
+/** Methods retried by default (idempotent per RFC 9110). */
+export const DEFAULT_RETRY_METHODS: Method[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+export type ResolvedRetryOptions = Required<Omit<CuimpRetryOptions, 'shouldRetry'>> &
+  Pick<CuimpRetryOptions, 'shouldRetry'>
+
+/**
+ * Normalizes the `retry` option. A number is the maximum number of attempts.
+ * Returns null when retries are disabled.
+ */
+export function resolveRetryOptions(
+  retry?: number | CuimpRetryOptions | false
+): ResolvedRetryOptions | null {
+  if (retry === undefined || retry === false) return null
+  const options: CuimpRetryOptions = typeof retry === 'number' ? { attempts: retry } : retry
+
+  const resolved: ResolvedRetryOptions = {
+    attempts: options.attempts ?? 3,
+    delay: options.delay ?? 300,
+    maxDelay: options.maxDelay ?? 30_000,
+    factor: options.factor ?? 2,
+    jitter: options.jitter ?? true,
+    statusCodes: options.statusCodes ?? DEFAULT_RETRY_STATUS_CODES,
+    exitCodes: options.exitCodes ?? DEFAULT_RETRY_EXIT_CODES,
+    methods: options.methods ?? DEFAULT_RETRY_METHODS,
+    respectRetryAfter: options.respectRetryAfter ?? true,
+    shouldRetry: options.shouldRetry,
+  }
+
+  return resolved.attempts > 1 ? resolved : null
+}
+
+/**
+ * Parses a Retry-After header value (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value?: string, now: number = Date.now()): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/**
+ * Exponential backoff for the given (1-based) attempt that just failed.
+ * With jitter enabled the delay is randomized between 50% and 100% of the computed value.
+ */
+export function computeBackoff(attempt: number, options: ResolvedRetryOptions): number {
+  const base = Math.min(options.maxDelay, options.delay * Math.pow(options.factor, attempt - 1))
+  if (!options.jitter) return base
+  return Math.round(base / 2 + Math.random() * (base / 2))
+}
+
+function isRetryableByDefault(context: CuimpRetryContext, options: ResolvedRetryOptions): boolean {
+  if (!options.methods.includes(context.method)) return false
+  if (context.response) {
+    return options.statusCodes.includes(context.response.status)
+  }
+  if (context.error instanceof CurlError) {
+    return options.exitCodes.includes(context.error.code)
+  }
+  return false
+}
+
+/**
+ * Decides whether another attempt should be made.
+ * Returns the delay in ms before the next attempt, or null to stop retrying.
+ */
+export async function getRetryDelay(
+  options: ResolvedRetryOptions,
+  context: CuimpRetryContext
+): Promise<number | null> {
+  if (context.attempt >= options.attempts) return null
+  if (context.config.signal?.aborted) return null
+
+  const retry = options.shouldRetry
+    ? await options.shouldRetry(context)
+    : isRetryableByDefault(context, options)
+  if (!retry) return null
+
+  if (options.respectRetryAfter && context.response) {
+    const retryAfter = parseRetryAfter(context.response.headers.get('retry-after'))
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, options.maxDelay)
+    }
+  }
+
+  return computeBackoff(context.attempt, options)
+}
+
+/**
+ * Waits for the given delay; rejects early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error('Request aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,345 @@
+import type { CuimpInstance, CuimpRequestConfig } from '../types/cuimpTypes'
+import { sleep } from './retry'
+
+/**
+ * Purpose: Server-Sent Events (text/event-stream) over CuimpHttp.requestStream().
+ * Caller: CuimpHttp.eventSource().
+ * Dependencies: requestStream, WHATWG EventTarget/MessageEvent (Node 18+ globals).
+ * Main Functions: SseParser, CuimpEventSource.
+ * Side Effects: Keeps a curl process running while the source is open; reconnects.
+ */
+
+/** One dispatched server-sent event. */
+export interface CuimpServerEvent {
+  /** Event type (`event:` field, default "message") */
+  type: string
+  data: string
+  /** Last event ID seen on this source (`id:` field) */
+  lastEventId: string
+}
+
+export interface CuimpEventSourceOptions extends Omit<CuimpRequestConfig, 'url' | 'signal'> {
+  /** Reconnect when the stream ends or the connection fails (default: true) */
+  reconnect?: boolean
+  /** Reconnection delay in ms until the server sends `retry:` (default: 3000) */
+  retryDelay?: number
+  /** Give up after this many consecutive failed connection attempts (default: unlimited) */
+  maxRetries?: number
+  /** Initial Last-Event-ID to resume from */
+  lastEventId?: string
+  /** Closes the source when aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Incremental text/event-stream parser (WHATWG HTML "event stream interpretation").
+ */
+export class SseParser {
+  private decoder = new TextDecoder('utf-8')
+  private buffer = ''
+  private eventType = ''
+  private data = ''
+  private lastEventId = ''
+
+  constructor(
+    private readonly handlers: {
+      onEvent: (event: CuimpServerEvent) => void
+      onRetry?: (ms: number) => void
+    },
+    lastEventId = ''
+  ) {
+    this.lastEventId = lastEventId
+  }
+
+  push(chunk: Uint8Array): void {
+    this.buffer += this.decoder.decode(chunk, { stream: true })
+
+    // Lines end with CRLF, LF or CR; a trailing CR may be the first half of a CRLF
+    let start = 0
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i]
+      if (ch !== '\n' && ch !== '\r') continue
+      if (ch === '\r' && i === this.buffer.length - 1) break
+      this.processLine(this.buffer.slice(start, i))
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++
+      start = i + 1
+    }
+    this.buffer = this.buffer.slice(start)
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch()
+      return
+    }
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.data += `${value}\n`
+        break
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.handlers.onRetry?.(parseInt(value, 10))
+        break
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data === '') {
+      this.eventType = ''
+      return
+    }
+    const event: CuimpServerEvent = {
+      type: this.eventType || 'message',
+      data: this.data.slice(0, -1),
+      lastEventId: this.lastEventId,
+    }
+    this.eventType = ''
+    this.data = ''
+    this.handlers.onEvent(event)
+  }
+}
+
+/** `error` event of a CuimpEventSource; `error` holds the cause when there is one. */
+export class CuimpEventSourceErrorEvent extends Event {
+  constructor(readonly error?: unknown) {
+    super('error')
+  }
+}
+
+type IteratorItem = { event: CuimpServerEvent } | { done: true } | { error: unknown }
+
+/**
+ * EventSource-like client over the impersonated transport.
+ *
+ * Dispatches `open`, `error` and MessageEvents named after each event type (default
+ * `message`) and can also be consumed with `for await`, which yields every event.
+ * Reconnects with the `Last-Event-ID` header when the stream ends or fails; a response
+ * that is not `200 text/event-stream` closes the source for good.
+ */
+export class CuimpEventSource extends EventTarget {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 2
+
+  readyState: number = CuimpEventSource.CONNECTING
+  lastEventId: string
+
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent<string>) => void) | null = null
+  onerror: ((event: CuimpEventSourceErrorEvent) => void) | null = null
+
+  private retryDelay: number
+  private origin: string
+  private abort = new AbortController()
+  private subscribers = new Set<(item: IteratorItem) => void>()
+
+  constructor(
+    private readonly client: Pick<CuimpInstance, 'requestStream'>,
+    readonly url: string,
+    private readonly options: CuimpEventSourceOptions = {}
+  ) {
+    super()
+    this.lastEventId = options.lastEventId ?? ''
+    this.retryDelay = options.retryDelay ?? 3000
+    try {
+      this.origin = new URL(url).origin
+    } catch {
+      this.origin = ''
+    }
+
+    if (options.signal?.aborted) {
+      this.readyState = CuimpEventSource.CLOSED
+      return
+    }
+    options.signal?.addEventListener('abort', () => this.close(), { once: true })
+    this.run().catch(error => this.fail(error instanceof Error ? error : new Error(String(error))))
+  }
+
+  /**
+   * Stops the stream and any pending reconnect
+   */
+  close(): void {
+    if (this.readyState === CuimpEventSource.CLOSED) return
+    this.readyState = CuimpEventSource.CLOSED
+    this.abort.abort()
+    this.notify({ done: true })
+  }
+
+  private notify(item: IteratorItem): void {
+    for (const subscriber of this.subscribers) subscriber(item)
+  }
+
+  /**
+   * Calls an on* handler the way dispatchEvent calls listeners: a throw is reported
+   * (as a process warning) instead of breaking the connection loop
+   */
+  private callHandler<E extends Event>(handler: ((event: E) => void) | null, event: E): void {
+    try {
+      handler?.call(this, event)
+    } catch (error) {
+      process.emitWarning(
+        error instanceof Error ? error : String(error),
+        'CuimpEventSourceHandlerWarning'
+      )
+    }
+  }
+
+  private emitError(error?: unknown): void {
+    const event = new CuimpEventSourceErrorEvent(error)
+    this.dispatchEvent(event)
+    this.callHandler(this.onerror, event)
+  }
+
+  private emitEvent(event: CuimpServerEvent): void {
+    this.lastEventId = event.lastEventId
+    const message = new MessageEvent<string>(event.type, {
+      data: event.data,
+      lastEventId: event.lastEventId,
+      origin: this.origin,
+    })
+    this.dispatchEvent(message)
+    if (event.type === 'message') this.callHandler(this.onmessage, message)
+    this.notify({ event })
+  }
+
+  private async run(): Promise<void> {
+    const {
+      reconnect = true,
+      maxRetries = Infinity,
+      retryDelay: _retryDelay,
+      lastEventId: _lastEventId,
+      signal: _signal,
+      ...config
+    } = this.options
+    const extraCurlArgs = config.extraCurlArgs ?? []
+    let failures = 0
+
+    while (this.readyState !== CuimpEventSource.CLOSED) {
+      this.readyState = CuimpEventSource.CONNECTING
+      let fatal: Error | undefined
+      const parser = new SseParser(
+        {
+          onEvent: event => this.emitEvent(event),
+          onRetry: ms => {
+            this.retryDelay = ms
+          },
+        },
+        this.lastEventId
+      )
+
+      try {
+        await this.client.requestStream(
+          {
+            ...config,
+            url: this.url,
+            headers: {
+              Accept: 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              ...config.headers,
+              ...(this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {}),
+            },
+            // Without --no-buffer curl holds back small events
+            extraCurlArgs: extraCurlArgs.includes('--no-buffer')
+              ? extraCurlArgs
+              : [...extraCurlArgs, '--no-buffer'],
+            signal: this.abort.signal,
+          },
+          {
+            onHeaders: info => {
+              const contentType = info.headers.get('content-type') ?? ''
+              if (info.status !== 200 || !/^text\/event-stream/i.test(contentType)) {
+                fatal = new Error(
+                  `EventSource response has status ${info.status} and content type "${contentType}"`
+                )
+                throw fatal
+              }
+              failures = 0
+              this.readyState = CuimpEventSource.OPEN
+              const event = new Event('open')
+              this.dispatchEvent(event)
+              this.callHandler(this.onopen, event)
+            },
+            onData: chunk => parser.push(chunk),
+          }
+        )
+      } catch (error) {
+        if (this.readyState === CuimpEventSource.CLOSED) return
+        if (fatal) {
+          this.fail(fatal)
+          return
+        }
+        failures++
+        this.emitError(error)
+      }
+
+      if (this.readyState === CuimpEventSource.CLOSED) return
+      if (!reconnect || failures > maxRetries) {
+        this.fail()
+        return
+      }
+      this.readyState = CuimpEventSource.CONNECTING
+      await sleep(this.retryDelay, this.abort.signal).catch(() => undefined)
+    }
+  }
+
+  private fail(error?: Error): void {
+    this.readyState = CuimpEventSource.CLOSED
+    this.abort.abort()
+    if (error) this.emitError(error)
+    this.notify(error ? { error } : { done: true })
+  }
+
+  /**
+   * Yields every event from now on; ends when the source closes and throws if it fails.
+   * Leaving the loop early (break/return) closes the source.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<CuimpServerEvent> {
+    const queue: IteratorItem[] = []
+    let wake: (() => void) | null = null
+    const subscriber = (item: IteratorItem) => {
+      queue.push(item)
+      wake?.()
+      wake = null
+    }
+    if (this.readyState === CuimpEventSource.CLOSED) queue.push({ done: true })
+    this.subscribers.add(subscriber)
+
+    const finish = (): IteratorResult<CuimpServerEvent> => {
+      this.subscribers.delete(subscriber)
+      return { done: true, value: undefined }
+    }
+
+    const iterator: AsyncIterableIterator<CuimpServerEvent> = {
+      next: async () => {
+        while (queue.length === 0) {
+          await new Promise<void>(resolve => {
+            wake = resolve
+          })
+        }
+        const item = queue.shift()!
+        if ('event' in item) return { done: false, value: item.event }
+        finish()
+        if ('error' in item) throw item.error
+        return { done: true, value: undefined }
+      },
+      return: () => {
+        this.close()
+        return Promise.resolve(finish())
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    }
+    return iterator
+  }
+}
@@ -0,0 +1,199 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { RELEASE_TARGETS } from '../constants/cuimpConstants'
+import type { CuimpAvailableTarget, Logger } from '../types/cuimpTypes'
+import { getLatestRelease, getReleaseTargets } from './connector'
+import { parseImpersonateTarget } from './descriptorNormalize'
+import { impersonateTargetFromPath } from './impersonate'
+
+/**
+ * Purpose: Name, order and list curl-impersonate browser targets.
+ * Caller: parser (binary lookup), Cuimp.listAvailable().
+ * Dependencies: GitHub release connector, fs/os for the offline copy of the target list.
+ * Main Functions: parseBinaryName, compareBrowserVersions, listAvailableTargets,
+ * resolveTargetRelease.
+ * Side Effects: listAvailableTargets and resolveTargetRelease write ~/.cuimp/targets.json after
+ * a successful lookup.
+ */
+
+export interface ParsedBinaryName {
+  target: string
+  browser: string
+  version: string
+  /** Mobile platform for targets like chrome131_android */
+  platform?: 'ios' | 'android'
+}
+
+interface TargetsCache {
+  release: string
+  targets: string[]
+  fetchedAt: string
+}
+
+const TARGETS_CACHE_FILE = 'targets.json'
+
+/**
+ * Parses a wrapper binary name or target name (curl_chrome136, curl_safari260_ios.bat,
+ * chrome131_android). Returns null for anything else, including the bare curl-impersonate.
+ */
+export function parseBinaryName(name: string): ParsedBinaryName | null {
+  const target = impersonateTargetFromPath(name) ?? name.toLowerCase()
+  try {
+    const { browser, version, variant } = parseImpersonateTarget(target)
+    if (!browser || !version) return null
+    return {
+      target,
+      browser,
+      version,
+      ...(variant ? { platform: variant as 'ios' | 'android' } : {}),
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Orders browser versions ascending ("99" < "136" < "136a")
+ */
+export function compareBrowserVersions(a: string, b: string): number {
+  const diff = parseInt(a, 10) - parseInt(b, 10)
+  if (diff !== 0 && !Number.isNaN(diff)) return diff
+  return a.localeCompare(b)
+}
+
+/**
+ * Orders parsed targets by browser name, then newest version first
+ */
+export function compareTargets(
+  a: Pick<ParsedBinaryName, 'target' | 'browser' | 'version'>,
+  b: Pick<ParsedBinaryName, 'target' | 'browser' | 'version'>
+): number {
+  return (
+    a.browser.localeCompare(b.browser) ||
+    compareBrowserVersions(b.version, a.version) ||
+    a.target.localeCompare(b.target)
+  )
+}
+
+const getTargetsCachePath = (): string => path.resolve(os.homedir(), '.cuimp', TARGETS_CACHE_FILE)
+
+const readTargetsCache = (): TargetsCache | null => {
+  try {
+    const cached = JSON.parse(fs.readFileSync(getTargetsCachePath(), 'utf8')) as TargetsCache
+    return typeof cached.release === 'string' && Array.isArray(cached.targets) ? cached : null
+  } catch {
+    return null
+  }
+}
+
+const writeTargetsCache = (cache: TargetsCache, logger: Logger): void => {
+  try {
+    const cachePath = getTargetsCachePath()
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true })
+    fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2))
+  } catch (error) {
+    logger.warn(
+      `Failed to cache target list: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Targets of the latest release, falling back to the ~/.cuimp/targets.json copy
+ */
+const loadLatestTargets = async (logger: Logger): Promise<TargetsCache> => {
+  try {
+    const release = await getLatestRelease()
+    const targets = await getReleaseTargets(release)
+    const cache = { release, targets, fetchedAt: new Date().toISOString() }
+    writeTargetsCache(cache, logger)
+    return cache
+  } catch (error) {
+    const cached = readTargetsCache()
+    const reason = error instanceof Error ? error.message : String(error)
+    if (!cached) {
+      throw new Error(reason)
+    }
+    logger.warn(`Using cached target list from ${cached.fetchedAt} (${reason})`)
+    return cached
+  }
+}
+
+/**
+ * Every target the latest curl-impersonate release supports. The list is cached in
+ * ~/.cuimp/targets.json and that copy is used when GitHub cannot be reached.
+ */
+export async function listAvailableTargets(
+  logger: Logger = console
+): Promise<CuimpAvailableTarget[]> {
+  let cache: TargetsCache
+  try {
+    cache = await loadLatestTargets(logger)
+  } catch (error) {
+    throw new Error(
+      `Failed to list available targets: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  return cache.targets
+    .map(parseBinaryName)
+    .filter((parsed): parsed is ParsedBinaryName => parsed !== null)
+    .sort(compareTargets)
+    .map(parsed => ({ ...parsed, release: cache.release }))
+}
+
+export interface ResolveTargetReleaseOptions {
+  /** Mirror URL template: its target lists can't be fetched, so only the bundled table is used */
+  mirror?: string
+  logger?: Logger
+}
+
+/**
+ * curl-impersonate release that ships a browser target (chrome116, safari260_ios): the
+ * latest release when it still ships the target, otherwise the newest release in the
+ * bundled RELEASE_TARGETS table that does. Throws when no known release ships it.
+ */
+export async function resolveTargetRelease(
+  target: string,
+  options: ResolveTargetReleaseOptions = {}
+): Promise<string> {
+  const { mirror, logger = console } = options
+  const name = target.toLowerCase()
+  const requested = parseBinaryName(name)
+  const known: (readonly string[])[] = []
+
+  if (!mirror) {
+    try {
+      const latest = await loadLatestTargets(logger)
+      if (latest.targets.includes(name)) return latest.release
+      known.push(latest.targets)
+    } catch (error) {
+      logger.debug?.(
+        `Could not fetch the latest target list: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  for (const { release, targets } of RELEASE_TARGETS) {
+    if (targets.includes(name)) return release
+    known.push(targets)
+  }
+
+  // Versions of the same browser and mobile profile, for the error message
+  const versions = new Set<string>()
+  for (const knownName of known.flat()) {
+    const parsed = parseBinaryName(knownName)
+    if (parsed && parsed.browser === requested?.browser && parsed.platform === requested.platform) {
+      versions.add(parsed.version)
+    }
+  }
+  const profile = requested
+    ? `${requested.browser}${requested.platform ? ` ${requested.platform}` : ''}`
+    : name
+  throw new Error(
+    `No curl-impersonate release ships ${name}. Known ${profile} versions: ${
+      [...versions].sort(compareBrowserVersions).join(', ') || 'none'
+    }`
+  )
+}
@@ -0,0 +1,47 @@
+import type { CuimpResponse, CuimpValidator, StandardSchemaV1 } from '../types/cuimpTypes'
+import { CuimpValidationError } from '../types/cuimpErrors'
+
+/**
+ * Purpose: Check response data against the `validate` option before it is returned.
+ * Caller: CuimpHttp.dispatchRequest().
+ * Dependencies: None (Standard Schema is duck-typed, no schema library required).
+ * Main Functions: validateResponse, isStandardSchema.
+ * Side Effects: Replaces response.data with the validator's output.
+ */
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    '~standard' in value
+  )
+}
+
+/**
+ * Runs the validator on response.data and stores its output there.
+ * Throws CuimpValidationError (with the response and the issues) when validation fails.
+ */
+export async function validateResponse(
+  validator: CuimpValidator,
+  response: CuimpResponse<unknown>
+): Promise<void> {
+  if (isStandardSchema(validator)) {
+    const result = await validator['~standard'].validate(response.data)
+    if (result.issues) throw new CuimpValidationError(response, result.issues)
+    response.data = result.value
+    return
+  }
+
+  let result: unknown
+  try {
+    result = validator(response.data)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new CuimpValidationError(response, [{ message }], { cause: error })
+  }
+  // Type guards answer true/false; anything else is the parsed data
+  if (result === false) {
+    throw new CuimpValidationError(response, [{ message: 'Validator rejected the response data' }])
+  }
+  if (result !== true) response.data = result
+}
@@ -2,6 +2,10 @@
 export { Cuimp } from './cuimp'
 export { CuimpHttp } from './client'
 export { CookieJar } from './helpers/cookieJar'
+export { InterceptorManager } from './helpers/interceptors'
+export { CuimpHeaders } from './helpers/headers'
+export { MultipartBody } from './helpers/multipart'
+export { CuimpEventSource, CuimpEventSourceErrorEvent, SseParser } from './helpers/sse'
 import cuimp from './cuimp'
 
 // Type exports
@@ -9,6 +13,9 @@ export type {
   CuimpDescriptor,
   CuimpDescriptorInput,
   BinaryInfo,
+  CuimpAvailableTarget,
+  CuimpInstalledBinary,
+  CuimpCacheEntry,
   Method,
   CuimpRequestConfig,
   CuimpResponse,
@@ -18,12 +25,41 @@ export type {
   CuimpOptions,
   CuimpInstance,
   CookieJarOption,
+  CuimpInterceptors,
+  CuimpInterceptedResponse,
+  CuimpRetryOptions,
+  CuimpRetryContext,
+  CuimpTimings,
+  CuimpResponseMeta,
+  CuimpRedirect,
+  CuimpStreamBody,
+  CuimpUploadProgress,
+  CuimpDownloadOptions,
+  CuimpDownloadProgress,
+  CuimpDownloadResult,
+  CuimpReadableResponse,
+  CuimpResponseType,
+  CuimpValidator,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  StandardSchemaV1Issue,
 } from './types/cuimpTypes'
-
-export type { RunResult, RunStreamResult } from './types/runTypes'
+export type {
+  InterceptorHandler,
+  InterceptorFulfilled,
+  InterceptorRejected,
+} from './helpers/interceptors'
+export type { CuimpResponseHeaders } from './helpers/headers'
+export type { MultipartValue, MultipartPartOptions } from './helpers/multipart'
+export type { CuimpServerEvent, CuimpEventSourceOptions } from './helpers/sse'
+export type { CuimpLockfile } from './helpers/integrity'
+export type { CachePruneOptions } from './helpers/cache'
+
+export type { RunResult, RunStreamResult, RunStdin } from './types/runTypes'
 
 // Error exports
 export { CurlError, CurlExitCode } from './types/curlErrors'
+export { CuimpHttpError, CuimpParseError, CuimpValidationError } from './types/cuimpErrors'
 
 // Utility exports
 export { runBinary, runBinaryStream } from './runner'
@@ -38,29 +74,30 @@ import type {
   CuimpStreamHandlers,
   CuimpStreamResponse,
   JSONValue,
+  CuimpDownloadOptions,
+  CuimpDownloadResult,
 } from './types/cuimpTypes'
+import type { CuimpEventSource, CuimpEventSourceOptions } from './helpers/sse'
+import { mergeConfig } from './helpers/mergeConfig'
 
 // Factory function for creating HTTP client instances
 export function createCuimpHttp(options?: CuimpOptions) {
   const core = new Cuimp(options)
-  const defaults: Partial<CuimpRequestConfig> = {}
 
-  // Pass extraCurlArgs from options to defaults if provided
-  if (options?.extraCurlArgs) {
-    defaults.extraCurlArgs = options.extraCurlArgs
-  }
-
-  // Pass proxy from options to defaults if provided
-  if (options?.proxy) {
-    defaults.proxy = options.proxy
-  }
+  // Client-level defaults; the top-level extraCurlArgs, proxy and retry options are
+  // merged on top (extraCurlArgs appended)
+  const defaults = mergeConfig(options?.defaults ?? {}, {
+    extraCurlArgs: options?.extraCurlArgs,
+    proxy: options?.proxy,
+    retry: options?.retry,
+  })
 
   return new CuimpHttp(core, defaults, options?.cookieJar)
 }
 
 // Convenience function for quick HTTP requests
 export async function request<T = JSONValue>(
-  config: CuimpRequestConfig
+  config: CuimpRequestConfig<T>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.request<T>(config)
@@ -74,10 +111,37 @@ export async function requestStream(
   return client.requestStream(config, handlers)
 }
 
+export async function download(
+  url: string,
+  destPath: string,
+  options?: CuimpDownloadOptions
+): Promise<CuimpDownloadResult> {
+  const client = createCuimpHttp()
+  return client.download(url, destPath, options)
+}
+
+// fetch()-compatible facade (drop-in for globalThis.fetch)
+export async function fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const client = createCuimpHttp()
+  return client.fetch(input, init)
+}
+
+// Newline-delimited JSON stream
+export function ndjson<T = JSONValue>(config: CuimpRequestConfig): AsyncIterableIterator<T> {
+  const client = createCuimpHttp()
+  return client.ndjson<T>(config)
+}
+
+// Server-Sent Events stream
+export function eventSource(url: string, options?: CuimpEventSourceOptions): CuimpEventSource {
+  const client = createCuimpHttp()
+  return client.eventSource(url, options)
+}
+
 // Convenience functions for common HTTP methods
 export async function get<T = JSONValue>(
   url: string,
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.get<T>(url, config)
@@ -86,7 +150,7 @@ export async function get<T = JSONValue>(
 export async function post<T = JSONValue>(
   url: string,
   data?: CuimpRequestConfig['data'],
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.post<T>(url, data, config)
@@ -95,7 +159,7 @@ export async function post<T = JSONValue>(
 export async function put<T = JSONValue>(
   url: string,
   data?: CuimpRequestConfig['data'],
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.put<T>(url, data, config)
@@ -104,7 +168,7 @@ export async function put<T = JSONValue>(
 export async function patch<T = JSONValue>(
   url: string,
   data?: CuimpRequestConfig['data'],
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.patch<T>(url, data, config)
@@ -112,7 +176,7 @@ export async function patch<T = JSONValue>(
 
 export async function del<T = JSONValue>(
   url: string,
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.delete<T>(url, config)
@@ -120,7 +184,7 @@ export async function del<T = JSONValue>(
 
 export async function head<T = JSONValue>(
   url: string,
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.head<T>(url, config)
@@ -128,7 +192,7 @@ export async function head<T = JSONValue>(
 
 export async function options<T = JSONValue>(
   url: string,
-  config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+  config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
 ): Promise<CuimpResponse<T>> {
   const client = createCuimpHttp()
   return client.options<T>(url, config)
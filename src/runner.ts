@@ -1,13 +1,16 @@
 import { spawn } from 'node:child_process'
-import { RunResult, RunStreamResult } from './types/runTypes'
+import { RunResult, RunStdin, RunStreamResult } from './types/runTypes'
 import { CurlExitCode } from './types/curlErrors'
 import path from 'node:path'
 import fs from 'node:fs'
+import { Readable, type Writable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { impersonateArgs, type ImpersonateCommand } from './helpers/impersonate'
 
 /**
  * Purpose: Run curl-impersonate binaries and wrapper scripts.
  * Caller: HTTP client request execution paths.
- * Dependencies: node child_process, path, fs, curl-impersonate wrapper scripts.
+ * Dependencies: node child_process, path, fs, curl-impersonate binary or wrapper scripts.
  * Main Functions: runBinary, runBinaryStream.
  * Side Effects: Spawns child processes and writes optional stdin.
  */
@@ -436,10 +439,48 @@ function parseUnixWrapper(wrapperPath: string): { binaryPath: string; args: stri
   return { binaryPath, args }
 }
 
+/**
+ * Writes request body data to the child's stdin. Iterables are piped with backpressure.
+ * curl may stop reading early (error response, timeout), so broken-pipe errors on stdin are
+ * ignored and reported through the exit code; errors raised by the body source itself go
+ * to onError.
+ */
+function writeStdin(sink: Writable, data: RunStdin, onError: (error: Error) => void): void {
+  sink.on('error', () => {
+    // EPIPE etc. - curl closed its stdin
+  })
+
+  if (typeof data === 'string' || Buffer.isBuffer(data)) {
+    sink.end(data)
+    return
+  }
+
+  let sourceError: Error | undefined
+  async function* read(): AsyncGenerator<Uint8Array> {
+    try {
+      for await (const chunk of data as AsyncIterable<Uint8Array>) {
+        yield chunk
+      }
+    } catch (error) {
+      sourceError = error instanceof Error ? error : new Error(String(error))
+      throw error
+    }
+  }
+
+  pipeline(Readable.from(read()), sink).catch(() => {
+    if (sourceError) onError(sourceError)
+  })
+}
+
 export function runBinary(
   binPath: string,
   args: string[],
-  opts?: { timeout?: number; signal?: AbortSignal; stdin?: string | Buffer }
+  opts?: {
+    timeout?: number
+    signal?: AbortSignal
+    stdin?: RunStdin
+    impersonate?: ImpersonateCommand
+  }
 ): Promise<RunResult> {
   return new Promise((resolve, reject) => {
     const isWindows = process.platform === 'win32'
@@ -450,7 +491,15 @@ export function runBinary(
     let finalArgs = args
     let needsShell = false
 
-    if (!isWindows) {
+    // curl-impersonate 1.x: run the single binary with --impersonate instead of the wrapper
+    // (support is probed once when the binary is resolved, see BinaryInfo.impersonateBinary)
+    const direct = opts?.impersonate
+    if (direct) {
+      actualBinPath = direct.binaryPath
+      finalArgs = [...impersonateArgs(direct.target), ...args]
+    }
+
+    if (!direct && !isWindows) {
       try {
         const wrapper = parseUnixWrapper(cleanPath)
         if (wrapper) {
@@ -462,7 +511,7 @@ export function runBinary(
       }
     }
 
-    if (isWindows && isBatFile) {
+    if (!direct && isWindows && isBatFile) {
       try {
         const batDir = path.win32.dirname(cleanPath)
         const { curlExePath, searchedPaths } = findWindowsCurlExe(batDir)
@@ -532,17 +581,19 @@ export function runBinary(
       shell: needsShell,
     })
 
-    // If stdin data is provided, write it to the process
-    if (opts?.stdin && child.stdin) {
-      const stdinData = typeof opts.stdin === 'string' ? Buffer.from(opts.stdin) : opts.stdin
-      child.stdin.write(stdinData)
-      child.stdin.end()
-    }
-
     let killedByTimeout = false
     let killedByAbort = false
+    let uploadError: Error | undefined
     let t: NodeJS.Timeout | undefined
 
+    // If stdin data is provided, write it to the process
+    if (opts?.stdin && child.stdin) {
+      writeStdin(child.stdin, opts.stdin, error => {
+        uploadError = error
+        child.kill('SIGKILL')
+      })
+    }
+
     if (opts?.timeout && opts.timeout > 0) {
       t = setTimeout(() => {
         killedByTimeout = true
@@ -583,6 +634,9 @@ export function runBinary(
       if (killedByAbort) {
         return reject(new Error('Request aborted'))
       }
+      if (uploadError) {
+        return reject(uploadError)
+      }
       resolve({
         exitCode: code as CurlExitCode | null,
         stdout: Buffer.concat(out),
@@ -598,7 +652,8 @@ export function runBinaryStream(
   opts?: {
     timeout?: number
     signal?: AbortSignal
-    stdin?: string | Buffer
+    stdin?: RunStdin
+    impersonate?: ImpersonateCommand
     onStdout?: (chunk: Buffer) => void | Promise<void>
     onStderr?: (chunk: Buffer) => void | Promise<void>
   }
@@ -612,7 +667,15 @@ export function runBinaryStream(
     let finalArgs = args
     let needsShell = false
 
-    if (!isWindows) {
+    // curl-impersonate 1.x: run the single binary with --impersonate instead of the wrapper
+    // (support is probed once when the binary is resolved, see BinaryInfo.impersonateBinary)
+    const direct = opts?.impersonate
+    if (direct) {
+      actualBinPath = direct.binaryPath
+      finalArgs = [...impersonateArgs(direct.target), ...args]
+    }
+
+    if (!direct && !isWindows) {
       try {
         const wrapper = parseUnixWrapper(cleanPath)
         if (wrapper) {
@@ -624,7 +687,7 @@ export function runBinaryStream(
       }
     }
 
-    if (isWindows && isBatFile) {
+    if (!direct && isWindows && isBatFile) {
       try {
         const batDir = path.win32.dirname(cleanPath)
         const { curlExePath, searchedPaths } = findWindowsCurlExe(batDir)
@@ -694,12 +757,6 @@ export function runBinaryStream(
       shell: needsShell,
     })
 
-    if (opts?.stdin && child.stdin) {
-      const stdinData = typeof opts.stdin === 'string' ? Buffer.from(opts.stdin) : opts.stdin
-      child.stdin.write(stdinData)
-      child.stdin.end()
-    }
-
     let killedByTimeout = false
     let killedByAbort = false
     let t: NodeJS.Timeout | undefined
@@ -718,6 +775,10 @@ export function runBinaryStream(
       reject(error)
     }
 
+    if (opts?.stdin && child.stdin) {
+      writeStdin(child.stdin, opts.stdin, rejectOnce)
+    }
+
     if (opts?.timeout && opts.timeout > 0) {
       t = setTimeout(() => {
         killedByTimeout = true
@@ -0,0 +1,56 @@
+import type { CuimpResponse, JSONValue, StandardSchemaV1Issue } from './cuimpTypes'
+
+/**
+ * Error thrown when a response status is rejected by `validateStatus`.
+ * Carries the full response (status, headers, data, rawBody, request).
+ */
+export class CuimpHttpError<T = JSONValue> extends Error {
+  public readonly status: number
+
+  constructor(
+    public readonly response: CuimpResponse<T>,
+    message?: string
+  ) {
+    super(message || `Request failed with status code ${response.status}`)
+    this.name = 'CuimpHttpError'
+    this.status = response.status
+  }
+}
+
+/**
+ * Error thrown when a response body (or one line of a streamed body) is not valid JSON.
+ * `line` is the 1-based line number for newline-delimited bodies.
+ */
+export class CuimpParseError extends Error {
+  constructor(
+    message: string,
+    public readonly text: string,
+    public readonly line?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options)
+    this.name = 'CuimpParseError'
+  }
+}
+
+/**
+ * Error thrown when response data fails the `validate` option.
+ * Carries the response (with the unvalidated data) and the validator's issues.
+ */
+export class CuimpValidationError<T = unknown> extends Error {
+  constructor(
+    public readonly response: CuimpResponse<T>,
+    public readonly issues: ReadonlyArray<StandardSchemaV1Issue>,
+    options?: { cause?: unknown }
+  ) {
+    super(`Response validation failed: ${issues.map(formatIssue).join('; ')}`, options)
+    this.name = 'CuimpValidationError'
+  }
+}
+
+function formatIssue(issue: StandardSchemaV1Issue): string {
+  const path = issue.path
+    ?.map(segment => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
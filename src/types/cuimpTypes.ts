@@ -1,10 +1,21 @@
+import type { CuimpResponseHeaders } from '../helpers/headers'
+import type { InterceptorManager } from '../helpers/interceptors'
+import type { MultipartBody } from '../helpers/multipart'
+import type { CuimpEventSource, CuimpEventSourceOptions } from '../helpers/sse'
+import type { CurlExitCode } from './curlErrors'
+import type { Readable } from 'stream'
+
 /** User-provided descriptor (accepts aliases like `iOS`, `x86_64`). */
 export interface CuimpDescriptorInput {
   browser?: string
   version?: string
   architecture?: string
   platform?: string
+  variant?: string
   forceDownload?: boolean
+  release?: string
+  lockfile?: string
+  allowUnverified?: boolean
 }
 
 /** Normalized descriptor with validated union fields. */
@@ -14,7 +25,15 @@ export interface CuimpDescriptor {
   version?: string
   architecture?: 'x64' | 'arm64' | 'arm'
   platform?: 'linux' | 'windows' | 'macos' | 'ios' | 'android'
+  /** Mobile profile of the target (safari260_ios -> "ios"); selects curl_safari260_ios */
+  variant?: 'ios' | 'android'
   forceDownload?: boolean // Force re-download even if binary exists
+  /** curl-impersonate release tag to download, e.g. "v1.2.2" (default: latest stable) */
+  release?: string
+  /** Path to cuimp.lock.json; created when missing (default: ./cuimp.lock.json if present) */
+  lockfile?: string
+  /** Record archives without a published checksum in the lockfile (trust on first use) */
+  allowUnverified?: boolean
 }
 
 /**
@@ -29,31 +48,227 @@ export interface BinaryInfo {
   binaryPath: string
   isDownloaded: boolean
   version?: string
+  /** Target passed with --impersonate when the binary supports it (e.g. "chrome136") */
+  impersonateTarget?: string
+  /** Single curl-impersonate executable run with impersonateTarget instead of the wrapper */
+  impersonateBinary?: string
+}
+
+/** A browser target supported by a curl-impersonate release (Cuimp.listAvailable) */
+export interface CuimpAvailableTarget {
+  /** Name accepted by `impersonate` and `--impersonate`, e.g. "chrome136" */
+  target: string
+  browser: string
+  version: string
+  /** Set for mobile targets such as chrome131_android */
+  platform?: 'ios' | 'android'
+  /** curl-impersonate release tag, e.g. "v1.2.2" */
+  release: string
+}
+
+/** A release installed in the binary cache (Cuimp.cache.list), read from its manifest.json */
+export interface CuimpCacheEntry {
+  /** curl-impersonate release tag, e.g. "v1.2.2" */
+  release: string
+  /** Release archive the install was extracted from */
+  asset: string
+  platform: string
+  architecture: string
+  /** SHA-256 of the archive */
+  sha256: string
+  /** ISO timestamp */
+  installedAt: string
+  /** Install directory, e.g. ~/.cuimp/cache/v1.2.2/x86_64-linux-gnu */
+  path: string
+}
+
+/** A curl-impersonate wrapper binary found on disk (Cuimp.listInstalled) */
+export interface CuimpInstalledBinary {
+  target: string
+  browser: string
+  version: string
+  path: string
+  /** Release tag recorded at download time; null for binaries cuimp did not download */
+  release: string | null
+  /** Mobile platform of the target, otherwise the host platform */
+  platform: string
 }
 
 export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
 
-export interface CuimpRequestConfig {
+export interface CuimpRetryContext {
+  /** Number of attempts made so far (1 after the first failure) */
+  attempt: number
+  method: Method
+  config: CuimpRequestConfig
+  /** Set when the attempt produced an HTTP response */
+  response?: CuimpResponse<unknown>
+  /** Set when the attempt threw (e.g. CurlError) */
+  error?: unknown
+}
+
+export interface CuimpRetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number
+  /** Base backoff delay in ms (default: 300) */
+  delay?: number
+  /** Upper bound for a single delay in ms, also caps Retry-After (default: 30000) */
+  maxDelay?: number
+  /** Exponential backoff factor (default: 2) */
+  factor?: number
+  /** Randomize each delay between 50% and 100% (default: true) */
+  jitter?: boolean
+  /** HTTP statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  statusCodes?: number[]
+  /** Curl exit codes that trigger a retry (default: connect/timeout/send/recv failures) */
+  exitCodes?: CurlExitCode[]
+  /** Methods that may be retried (default: idempotent methods only) */
+  methods?: Method[]
+  /** Wait for the Retry-After response header when present (default: true) */
+  respectRetryAfter?: boolean
+  /** Custom predicate; replaces the status/exit code/method checks when provided */
+  shouldRetry?: (context: CuimpRetryContext) => boolean | Promise<boolean>
+}
+
+export interface CuimpRequestConfig<T = unknown> {
   url?: string
   method?: Method
   baseURL?: string
   headers?: Record<string, string | number | boolean>
   params?: Record<string, string | number | boolean | undefined>
-  data?: string | Buffer | JSONValue | URLSearchParams
+  data?: string | Buffer | JSONValue | URLSearchParams | FormData | MultipartBody | CuimpStreamBody
   timeout?: number
   maxRedirects?: number
   proxy?: string
   insecureTLS?: boolean
   signal?: AbortSignal
   extraCurlArgs?: string[] // Additional curl arguments like --cookie, --cookie-jar, etc.
+  retry?: number | CuimpRetryOptions | false // Retry policy (number = max attempts)
+  validateStatus?: ((status: number) => boolean) | null // Reject with CuimpHttpError when false (default: 2xx only; null accepts all)
+  onUploadProgress?: (progress: CuimpUploadProgress) => void // Called as curl reads the body
+  responseType?: CuimpResponseType // How response.data is built (default: 'auto')
+  jsonReviver?: (this: unknown, key: string, value: unknown) => unknown // Passed to JSON.parse
+  jsonParseError?: 'fallback' | 'throw' // Invalid JSON: return the text (default) or throw
+  validate?: CuimpValidator<T> // Checks response.data (request() and its shorthands only)
+  impersonate?: CuimpDescriptorInput | string // Browser for this request, e.g. 'chrome136'
+}
+
+/**
+ * Minimal Standard Schema v1 interface (https://standardschema.dev), implemented by
+ * zod, valibot, arktype and others. Declared here so no schema library is required.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output }
+  }
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> }
+
+export interface StandardSchemaV1Issue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/**
+ * Response data validator:
+ * - a Standard Schema (its output becomes `data`)
+ * - a type guard `(data): data is T`, or a function returning true/false
+ * - a parse function returning the (possibly transformed) data; throwing rejects
+ */
+export type CuimpValidator<T = unknown> =
+  | StandardSchemaV1<unknown, T>
+  | ((data: unknown) => data is T)
+  | ((data: unknown) => T)
+
+/**
+ * How `response.data` is built from the body:
+ * - 'auto': parsed JSON for JSON content types (incl. `+json`), otherwise decoded text
+ * - 'json': parsed JSON regardless of the content type
+ * - 'text': text decoded with the charset from the headers, a BOM or an HTML `<meta>` tag
+ * - 'buffer' / 'arraybuffer': the raw bytes
+ */
+export type CuimpResponseType = 'auto' | 'json' | 'text' | 'buffer' | 'arraybuffer'
+
+/** Request body piped into curl's stdin as it is read (never buffered in memory). */
+export type CuimpStreamBody = Readable | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+
+export interface CuimpUploadProgress {
+  /** Body bytes handed to curl so far */
+  loaded: number
+  /** Total body size, when known (Buffer/string bodies or a Content-Length header) */
+  total?: number
+}
+
+/**
+ * Request phase timings reported by curl, in milliseconds since the request started
+ * (cumulative, like curl's time_* variables).
+ */
+export interface CuimpTimings {
+  /** Name lookup completed */
+  dns: number
+  /** TCP connect (or proxy connect) completed */
+  connect: number
+  /** TLS handshake completed (0 for plain HTTP) */
+  tls: number
+  /** First response byte received (TTFB) */
+  firstByte: number
+  /** Time spent following redirects */
+  redirect: number
+  /** Whole transfer */
+  total: number
+}
+
+/** Connection details reported by curl for the final transfer. */
+export interface CuimpResponseMeta {
+  remoteIp?: string
+  remotePort?: number
+  /** Negotiated HTTP version, e.g. "1.1", "2", "3" */
+  httpVersion?: string
+  /** Body bytes downloaded */
+  bytesDownloaded: number
+  /** Body bytes uploaded */
+  bytesUploaded: number
+  /** Average download speed in bytes per second */
+  downloadSpeed: number
+  /** Number of redirects followed */
+  redirectCount: number
+  /** Last URL curl requested */
+  effectiveUrl?: string
+}
+
+/** One hop of a redirect chain followed with --location. */
+export interface CuimpRedirect {
+  status: number
+  statusText: string
+  headers: CuimpResponseHeaders
+  /** URL that answered with this redirect */
+  url: string
 }
 
 export interface CuimpResponse<T = JSONValue> {
   status: number
   statusText: string
-  headers: Record<string, string>
+  headers: CuimpResponseHeaders
   data: T
   rawBody: Buffer
+  /** Final URL after redirects */
+  url?: string
+  /** Redirect hops followed before the final response, in order */
+  redirects?: CuimpRedirect[]
+  /** Number of attempts made, including retries */
+  attempts?: number
+  /** Phase timings, when curl reported them */
+  timings?: CuimpTimings
+  /** Connection metrics, when curl reported them */
+  meta?: CuimpResponseMeta
   request: {
     url: string
     method: Method
@@ -65,11 +280,19 @@ export interface CuimpResponse<T = JSONValue> {
 export interface CuimpStreamHeaders {
   status: number
   statusText: string
-  headers: Record<string, string>
+  headers: CuimpResponseHeaders
+  /** Final URL after redirects */
+  url?: string
+  /** Redirect hops followed before the final response, in order */
+  redirects?: CuimpRedirect[]
 }
 
 export interface CuimpStreamResponse extends CuimpStreamHeaders {
   rawBody?: Buffer
+  /** Phase timings, available once the stream has ended */
+  timings?: CuimpTimings
+  /** Connection metrics, available once the stream has ended */
+  meta?: CuimpResponseMeta
   request: {
     url: string
     method: Method
@@ -78,6 +301,53 @@ export interface CuimpStreamResponse extends CuimpStreamHeaders {
   }
 }
 
+export interface CuimpDownloadProgress {
+  /** Bytes on disk, including a resumed part */
+  loaded: number
+  /** Expected total size, when the server sent Content-Length/Content-Range */
+  total?: number
+  /** Average transfer rate of this download in bytes per second */
+  rate: number
+}
+
+export interface CuimpDownloadOptions extends Omit<CuimpRequestConfig, 'url' | 'data'> {
+  /** Continue an existing `<dest>.part` file with a Range request (default: false) */
+  resume?: boolean
+  onProgress?: (progress: CuimpDownloadProgress) => void
+  /** Verify the file after download; a mismatch deletes it and throws */
+  checksum?: {
+    /** Node crypto hash name (default: 'sha256') */
+    algorithm?: string
+    /** Expected hex digest */
+    expected: string
+  }
+}
+
+export interface CuimpDownloadResult {
+  /** Destination path */
+  path: string
+  /** File size in bytes */
+  size: number
+  status: number
+  headers: CuimpResponseHeaders
+  /** Final URL after redirects */
+  url?: string
+  /** True when an existing partial file was continued */
+  resumed: boolean
+  /** Hex digest of the file, when a checksum was requested */
+  checksum?: string
+  timings?: CuimpTimings
+  meta?: CuimpResponseMeta
+}
+
+/** Result of CuimpHttp.stream(): available as soon as the response headers arrive. */
+export interface CuimpReadableResponse extends CuimpStreamHeaders {
+  /** Response body; destroying it stops the transfer */
+  body: Readable
+  /** The body as a web ReadableStream (use one of `body` or `toWeb()`, not both) */
+  toWeb(): ReadableStream<Uint8Array>
+}
+
 export interface CuimpStreamHandlers {
   onHeaders?: (info: CuimpStreamHeaders) => void | Promise<void>
   onData?: (chunk: Buffer) => void | Promise<void>
@@ -101,6 +371,9 @@ export interface CuimpOptions {
   proxy?: string
   cookieJar?: CookieJarOption // Enable automatic cookie management
   autoDownload?: boolean // If false, throw error instead of auto-downloading binaries (default: true)
+  binarySource?: string // Mirror URL template, local .tar.gz or directory of binaries (default: GitHub)
+  retry?: number | CuimpRetryOptions // Default retry policy for all requests
+  defaults?: Partial<CuimpRequestConfig> // Client-level request defaults (headers, baseURL, timeout...)
 }
 
 // Type for JSON-serializable values
@@ -121,41 +394,62 @@ export type RequestHeaders = Record<string, string | number | boolean>
 // Type for parsed response body (JSON or string)
 export type ParsedBody = JSONValue | string
 
+/** Response value seen by response interceptors (buffered or streaming). */
+export type CuimpInterceptedResponse = CuimpResponse<unknown> | CuimpStreamResponse
+
+export interface CuimpInterceptors {
+  /** Runs on the request config before curl arguments are built */
+  request: InterceptorManager<CuimpRequestConfig>
+  /** Runs on the response (or the thrown error) before it is returned */
+  response: InterceptorManager<CuimpInterceptedResponse>
+}
+
 export interface CuimpInstance {
-  request<T = JSONValue>(config: CuimpRequestConfig): Promise<CuimpResponse<T>>
+  interceptors: CuimpInterceptors
+  request<T = JSONValue>(config: CuimpRequestConfig<T>): Promise<CuimpResponse<T>>
   requestStream(
     config: CuimpRequestConfig,
     handlers?: CuimpStreamHandlers
   ): Promise<CuimpStreamResponse>
+  download(
+    url: string,
+    destPath: string,
+    options?: CuimpDownloadOptions
+  ): Promise<CuimpDownloadResult>
+  stream(config: CuimpRequestConfig): Promise<CuimpReadableResponse>
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>
+  ndjson<T = JSONValue>(config: CuimpRequestConfig): AsyncIterableIterator<T>
+  create(overrides?: Partial<CuimpRequestConfig>): CuimpInstance
+  eventSource(url: string, options?: CuimpEventSourceOptions): CuimpEventSource
   get<T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   delete<T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   head<T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   options<T = JSONValue>(
     url: string,
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   post<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   put<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
   patch<T = JSONValue>(
     url: string,
     data?: CuimpRequestConfig['data'],
-    config?: Omit<CuimpRequestConfig, 'url' | 'method' | 'data'>
+    config?: Omit<CuimpRequestConfig<T>, 'url' | 'method' | 'data'>
   ): Promise<CuimpResponse<T>>
 }
@@ -10,3 +10,6 @@ export interface RunStreamResult {
   exitCode: CurlExitCode | null
   stderr: Buffer
 }
+
+/** Data written to the child's stdin; iterables are piped with backpressure. */
+export type RunStdin = string | Buffer | AsyncIterable<Uint8Array>
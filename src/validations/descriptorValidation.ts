@@ -5,6 +5,7 @@ import {
   BROWSER_VERSION_PATTERN,
   normalizeDescriptor,
   platformForValidation,
+  RELEASE_TAG_PATTERN,
 } from '../helpers/descriptorNormalize'
 
 export const validateDescriptor = (descriptor: CuimpDescriptorInput) => {
@@ -34,6 +35,12 @@ export const validateDescriptor = (descriptor: CuimpDescriptorInput) => {
     }
   }
 
+  if (descriptor.variant !== undefined && !normalized.variant) {
+    throw new Error(
+      `Variant '${descriptor.variant}' is not supported. Supported variants: ios, android`
+    )
+  }
+
   if (normalized.version) {
     if (normalized.version !== 'latest' && !BROWSER_VERSION_PATTERN.test(normalized.version)) {
       throw new Error(
@@ -41,4 +48,8 @@ export const validateDescriptor = (descriptor: CuimpDescriptorInput) => {
       )
     }
   }
+
+  if (descriptor.release !== undefined && !RELEASE_TAG_PATTERN.test(descriptor.release.trim())) {
+    throw new Error(`Release must be a curl-impersonate release tag, e.g. "v1.2.2"`)
+  }
 }
@@ -200,6 +200,27 @@ describe('Integration Tests - Main API', () => {
         expect.any(Object)
       )
     })
+
+    it('should apply client-level defaults from options', async () => {
+      const client = createCuimpHttp({
+        extraCurlArgs: ['--compressed'],
+        defaults: {
+          baseURL: 'https://api.example.com',
+          headers: { 'X-Client': 'cuimp' },
+          params: { lang: 'en' },
+          insecureTLS: true,
+          extraCurlArgs: ['--http2'],
+        },
+      })
+
+      await client.get('/test', { params: { page: 2 }, headers: { 'X-Request': '1' } })
+
+      const args = mockRunBinary.mock.calls[0][1] as string[]
+      expect(args).toContain('https://api.example.com/test?lang=en&page=2')
+      expect(args).toEqual(expect.arrayContaining(['-H', 'X-Client: cuimp', '-H', 'X-Request: 1']))
+      expect(args).toContain('-k')
+      expect(args.indexOf('--http2')).toBeLessThan(args.indexOf('--compressed'))
+    })
   })
 
   describe('Convenience functions integration', () => {
@@ -344,33 +365,19 @@ describe('Integration Tests - Main API', () => {
         },
       })
 
-      // On Windows, data is passed via stdin; on other platforms, via command-line
-      const isWindows = process.platform === 'win32'
-      if (isWindows) {
-        expect(mockRunBinary).toHaveBeenCalledWith(
-          '/usr/bin/curl-impersonate',
-          expect.arrayContaining([
-            '--data-binary',
-            '@-',
-            '-H',
-            'Content-Type: application/octet-stream',
-          ]),
-          expect.objectContaining({
-            stdin: fileData,
-          })
-        )
-      } else {
-        expect(mockRunBinary).toHaveBeenCalledWith(
-          '/usr/bin/curl-impersonate',
-          expect.arrayContaining([
-            '--data-binary',
-            'file content',
-            '-H',
-            'Content-Type: application/octet-stream',
-          ]),
-          expect.any(Object)
-        )
-      }
+      // Buffers are always passed via stdin
+      expect(mockRunBinary).toHaveBeenCalledWith(
+        '/usr/bin/curl-impersonate',
+        expect.arrayContaining([
+          '--data-binary',
+          '@-',
+          '-H',
+          'Content-Type: application/octet-stream',
+        ]),
+        expect.objectContaining({
+          stdin: fileData,
+        })
+      )
     })
 
     it('should handle form submission', async () => {
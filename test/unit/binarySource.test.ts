@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { create } from 'tar'
+import {
+  expandMirrorUrl,
+  releaseFromAssetName,
+  resolveBinarySource,
+} from '../../src/helpers/binarySource'
+import { parseDescriptor } from '../../src/helpers/parser'
+import { parseImpersonateTarget } from '../../src/helpers/descriptorNormalize'
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+
+describe('resolveBinarySource', () => {
+  it('detects mirrors, archives and directories', () => {
+    expect(resolveBinarySource('https://artifacts.internal/ci/{tag}/{asset}', {})).toEqual({
+      kind: 'mirror',
+      template: 'https://artifacts.internal/ci/{tag}/{asset}',
+    })
+    expect(resolveBinarySource('/opt/curl-impersonate-v1.2.2.tar.gz', {})).toEqual({
+      kind: 'archive',
+      path: path.resolve('/opt/curl-impersonate-v1.2.2.tar.gz'),
+    })
+    expect(resolveBinarySource('/opt/curl-impersonate', {})).toEqual({
+      kind: 'directory',
+      path: path.resolve('/opt/curl-impersonate'),
+    })
+    expect(resolveBinarySource(undefined, {})).toEqual({ kind: 'github' })
+  })
+
+  it('falls back to CUIMP_BINARY_PATH, then CUIMP_BINARY_MIRROR', () => {
+    const env = { CUIMP_BINARY_PATH: '/opt/bin', CUIMP_BINARY_MIRROR: 'https://mirror.local' }
+
+    expect(resolveBinarySource('https://other.local', env).kind).toBe('mirror')
+    expect(resolveBinarySource(undefined, env)).toEqual({
+      kind: 'directory',
+      path: path.resolve('/opt/bin'),
+    })
+    expect(resolveBinarySource(undefined, { CUIMP_BINARY_MIRROR: 'https://mirror.local' })).toEqual(
+      { kind: 'mirror', template: 'https://mirror.local' }
+    )
+  })
+})
+
+describe('expandMirrorUrl', () => {
+  it('fills {tag} and {asset}', () => {
+    expect(
+      expandMirrorUrl('https://artifacts.internal/ci/{tag}/{asset}', 'v1.2.2', 'a.tar.gz')
+    ).toBe('https://artifacts.internal/ci/v1.2.2/a.tar.gz')
+  })
+
+  it('treats a template without placeholders as a base URL', () => {
+    expect(expandMirrorUrl('https://mirror.local/ci/', 'v1.2.2', 'a.tar.gz')).toBe(
+      'https://mirror.local/ci/v1.2.2/a.tar.gz'
+    )
+  })
+})
+
+describe('releaseFromAssetName', () => {
+  it('reads the tag from release archive names', () => {
+    expect(releaseFromAssetName('curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz')).toBe('v1.2.2')
+    expect(releaseFromAssetName('libcurl-impersonate-v1.0.0.x86_64-win32.tar.gz')).toBe('v1.0.0')
+    expect(releaseFromAssetName('binaries.tar.gz')).toBeNull()
+  })
+})
+
+describe('parseDescriptor with a binary source', () => {
+  let tmp: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-source-'))
+    vi.spyOn(os, 'homedir').mockReturnValue(path.join(tmp, 'home'))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(tmp, { recursive: true, force: true })
+  })
+
+  it('uses binaries from a directory without downloading', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch')
+    const dir = path.join(tmp, 'binaries')
+    fs.mkdirSync(dir)
+    fs.writeFileSync(path.join(dir, 'curl_chrome120'), '')
+    fs.writeFileSync(path.join(dir, 'curl_chrome136'), '')
+
+    const latest = await parseDescriptor({ browser: 'chrome' }, logger, true, dir)
+    expect(latest).toEqual({
+      binaryPath: path.join(dir, 'curl_chrome136'),
+      isDownloaded: false,
+      version: '136',
+    })
+
+    const pinned = await parseDescriptor({ browser: 'chrome', version: '120' }, logger, true, dir)
+    expect(pinned.binaryPath).toBe(path.join(dir, 'curl_chrome120'))
+
+    await expect(parseDescriptor({ browser: 'firefox' }, logger, true, dir)).rejects.toThrow(
+      `Binary not found for firefox in binary source ${dir}`
+    )
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('resolves mobile targets to their _ios/_android wrappers', async () => {
+    const dir = path.join(tmp, 'binaries')
+    fs.mkdirSync(dir)
+    for (const name of [
+      'curl_safari260',
+      'curl_safari260_ios',
+      'curl_chrome131',
+      'curl_chrome131_android',
+    ]) {
+      fs.writeFileSync(path.join(dir, name), '')
+    }
+    const resolve = (target: string) =>
+      parseDescriptor(parseImpersonateTarget(target), logger, true, dir)
+
+    await expect(resolve('safari260_ios')).resolves.toMatchObject({
+      binaryPath: path.join(dir, 'curl_safari260_ios'),
+      version: '260',
+    })
+    expect((await resolve('safari260')).binaryPath).toBe(path.join(dir, 'curl_safari260'))
+    expect((await resolve('chrome131_android')).binaryPath).toBe(
+      path.join(dir, 'curl_chrome131_android')
+    )
+    expect((await resolve('chrome')).binaryPath).toBe(path.join(dir, 'curl_chrome131'))
+    expect((await resolve('safari_ios')).binaryPath).toBe(path.join(dir, 'curl_safari260_ios'))
+    await expect(resolve('chrome131_ios')).rejects.toThrow(
+      `Binary not found for chrome131_ios in binary source ${dir}`
+    )
+  })
+
+  it('extracts a local release archive without downloading', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch')
+    const contents = path.join(tmp, 'contents')
+    fs.mkdirSync(contents)
+    fs.writeFileSync(path.join(contents, 'curl-impersonate'), '')
+    fs.writeFileSync(path.join(contents, 'curl_chrome136'), '')
+    const archive = path.join(tmp, 'curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz')
+    await create({ gzip: true, file: archive, cwd: contents }, [
+      'curl-impersonate',
+      'curl_chrome136',
+    ])
+
+    const result = await parseDescriptor(
+      { browser: 'chrome', forceDownload: true },
+      logger,
+      true,
+      archive
+    )
+
+    const installDir = path.join(tmp, 'home', '.cuimp', 'cache', 'v1.2.2', 'x86_64-linux-gnu')
+    expect(result.isDownloaded).toBe(true)
+    expect(result.binaryPath).toBe(path.join(installDir, 'curl-impersonate'))
+    expect(
+      JSON.parse(fs.readFileSync(path.join(installDir, 'manifest.json'), 'utf8'))
+    ).toMatchObject({ release: 'v1.2.2', asset: path.basename(archive) })
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  assetTriple,
+  compareReleaseTags,
+  getCacheDir,
+  getInstallDir,
+  writeInstallManifest,
+} from '../../src/helpers/cache'
+import { Cuimp } from '../../src/cuimp'
+
+const install = (release: string, triple: string, architecture = 'x64') => {
+  const dir = getInstallDir(release, triple)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, 'curl-impersonate'), '')
+  writeInstallManifest(dir, {
+    release,
+    asset: `curl-impersonate-${release}.${triple}.tar.gz`,
+    platform: 'linux',
+    architecture,
+    sha256: '0'.repeat(64),
+    installedAt: '2026-01-01T00:00:00.000Z',
+  })
+  return dir
+}
+
+describe('binary cache', () => {
+  const originalCacheDir = process.env.CUIMP_CACHE_DIR
+  let cacheDir: string
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-cache-'))
+    process.env.CUIMP_CACHE_DIR = cacheDir
+  })
+
+  afterEach(() => {
+    if (originalCacheDir === undefined) delete process.env.CUIMP_CACHE_DIR
+    else process.env.CUIMP_CACHE_DIR = originalCacheDir
+    fs.rmSync(cacheDir, { recursive: true, force: true })
+  })
+
+  it('uses CUIMP_CACHE_DIR and lays installs out by release and platform', () => {
+    expect(getCacheDir()).toBe(cacheDir)
+    expect(getInstallDir('v1.2.2', 'x86_64-linux-gnu')).toBe(
+      path.join(cacheDir, 'v1.2.2', 'x86_64-linux-gnu')
+    )
+  })
+
+  it('reads the platform triple from release archive names', () => {
+    expect(assetTriple('curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz', 'v1.2.2')).toBe(
+      'x86_64-linux-gnu'
+    )
+    expect(assetTriple('libcurl-impersonate-v1.2.2.x86_64-win32.tar.gz', 'v1.2.2')).toBe(
+      'x86_64-win32'
+    )
+    expect(assetTriple('binaries.tar.gz', 'v1.2.2')).toBeNull()
+  })
+
+  it('orders release tags numerically', () => {
+    expect(['v1.10.0', 'v1.2.2', 'v1.2.10', 'v0.6.1'].sort(compareReleaseTags)).toEqual([
+      'v0.6.1',
+      'v1.2.2',
+      'v1.2.10',
+      'v1.10.0',
+    ])
+  })
+
+  it('lists installs newest release first', () => {
+    install('v1.0.0', 'x86_64-linux-gnu')
+    install('v1.2.2', 'x86_64-linux-gnu')
+    // Incomplete install without a manifest
+    fs.mkdirSync(path.join(cacheDir, 'v1.3.0', 'x86_64-linux-gnu'), { recursive: true })
+    // Install still being extracted by another process
+    const staging = install('v1.3.0', 'x86_64-linux-gnu.tmp-1234-1')
+    fs.renameSync(staging, path.join(cacheDir, 'v1.3.0', '.x86_64-linux-gnu.tmp-1234-1'))
+
+    const entries = Cuimp.cache.list()
+    expect(entries.map(entry => entry.release)).toEqual(['v1.2.2', 'v1.0.0'])
+    expect(entries[0]).toEqual({
+      release: 'v1.2.2',
+      asset: 'curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz',
+      platform: 'linux',
+      architecture: 'x64',
+      sha256: '0'.repeat(64),
+      installedAt: '2026-01-01T00:00:00.000Z',
+      path: path.join(cacheDir, 'v1.2.2', 'x86_64-linux-gnu'),
+    })
+  })
+
+  it('prunes old releases per platform', () => {
+    install('v1.0.0', 'x86_64-linux-gnu')
+    install('v1.1.0', 'x86_64-linux-gnu')
+    install('v1.2.2', 'x86_64-linux-gnu')
+    install('v1.0.0', 'aarch64-linux-gnu', 'arm64')
+
+    const removed = Cuimp.cache.prune({ keep: 2 })
+
+    expect(removed.map(entry => `${entry.release}/${path.basename(entry.path)}`)).toEqual([
+      'v1.0.0/x86_64-linux-gnu',
+    ])
+    expect(
+      Cuimp.cache.list().map(entry => `${entry.release}/${path.basename(entry.path)}`)
+    ).toEqual(['v1.2.2/x86_64-linux-gnu', 'v1.1.0/x86_64-linux-gnu', 'v1.0.0/aarch64-linux-gnu'])
+
+    Cuimp.cache.prune()
+    expect(Cuimp.cache.list().map(entry => entry.release)).toEqual(['v1.2.2', 'v1.0.0'])
+  })
+
+  it('clears the cache', () => {
+    install('v1.2.2', 'x86_64-linux-gnu')
+
+    Cuimp.cache.clear()
+
+    expect(fs.existsSync(cacheDir)).toBe(false)
+    expect(Cuimp.cache.list()).toEqual([])
+  })
+})
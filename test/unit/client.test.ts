@@ -1,29 +1,41 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { CuimpHttp } from '../../src/client'
 import { Cuimp } from '../../src/cuimp'
-import { CuimpRequestConfig } from '../../src/types/cuimpTypes'
+import { CuimpRequestConfig, StandardSchemaV1 } from '../../src/types/cuimpTypes'
 import { CurlError, CurlExitCode } from '../../src/types/curlErrors'
+import { CuimpHttpError, CuimpParseError, CuimpValidationError } from '../../src/types/cuimpErrors'
+import { CuimpHeaders } from '../../src/helpers/headers'
+import { MultipartBody } from '../../src/helpers/multipart'
+import { Readable } from 'stream'
+import { createHash } from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 
 // Mock the runner module
 vi.mock('../../src/runner', () => ({
   runBinary: vi.fn(),
+  runBinaryStream: vi.fn(),
 }))
 
 describe('CuimpHttp', () => {
   let mockCuimp: Cuimp
   let client: CuimpHttp
   let mockRunBinary: any
+  let mockRunBinaryStream: any
 
   beforeEach(async () => {
     vi.clearAllMocks()
     mockCuimp = {
       ensurePath: vi.fn().mockResolvedValue('/usr/bin/curl-impersonate'),
+      getBinaryInfo: vi.fn().mockReturnValue(undefined),
     } as any
     client = new CuimpHttp(mockCuimp)
 
     // Get mocked functions
     const runnerModule = await import('../../src/runner')
     mockRunBinary = vi.mocked(runnerModule.runBinary)
+    mockRunBinaryStream = vi.mocked(runnerModule.runBinaryStream)
   })
 
   afterEach(() => {
@@ -38,6 +50,123 @@ describe('CuimpHttp', () => {
     })
   })
 
+  describe('impersonate', () => {
+    beforeEach(() => {
+      ;(mockCuimp as any).ensureBinaryFor = vi.fn(
+        (descriptor: { browser: string; version?: string }) =>
+          Promise.resolve({
+            binaryPath: `/bin/curl_${descriptor.browser}${descriptor.version ?? ''}`,
+            isDownloaded: false,
+          })
+      )
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n'),
+        stderr: Buffer.from(''),
+      })
+    })
+
+    it('should run the binary for the requested browser', async () => {
+      await client.get('https://api.example.com/', { impersonate: 'safari2601' })
+      await client.get('https://api.example.com/', { impersonate: { browser: 'firefox' } })
+      await client.get('https://api.example.com/')
+
+      expect(mockRunBinary.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        '/bin/curl_safari2601',
+        '/bin/curl_firefox',
+        '/usr/bin/curl-impersonate',
+      ])
+      expect((mockCuimp as any).ensureBinaryFor).toHaveBeenCalledWith({
+        browser: 'safari',
+        version: '2601',
+      })
+    })
+
+    it('should take the browser from client defaults', async () => {
+      const safari = client.create({ impersonate: 'safari2601' })
+
+      await safari.get('https://api.example.com/')
+      await safari.get('https://api.example.com/', { impersonate: 'chrome136' })
+
+      expect(mockRunBinary.mock.calls[0][0]).toBe('/bin/curl_safari2601')
+      expect(mockRunBinary.mock.calls[1][0]).toBe('/bin/curl_chrome136')
+    })
+
+    it('should pass the probed --impersonate command to the runner', async () => {
+      ;(mockCuimp as any).ensureBinaryFor.mockResolvedValueOnce({
+        binaryPath: '/cache/v1/curl_chrome146',
+        isDownloaded: false,
+        impersonateTarget: 'chrome146',
+        impersonateBinary: '/cache/v1/curl-impersonate',
+      })
+
+      await client.get('https://api.example.com/', { impersonate: 'chrome146' })
+      await client.get('https://api.example.com/')
+
+      expect(mockRunBinary.mock.calls[0][2].impersonate).toEqual({
+        binaryPath: '/cache/v1/curl-impersonate',
+        target: 'chrome146',
+      })
+      expect(mockRunBinary.mock.calls[1][2].impersonate).toBeUndefined()
+    })
+
+    it('should reject invalid targets', async () => {
+      await expect(
+        client.get('https://api.example.com/', { impersonate: 'netscape4' })
+      ).rejects.toThrow('Invalid impersonate target: netscape4')
+      expect(mockRunBinary).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('create', () => {
+    const ok = {
+      exitCode: 0,
+      stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n'),
+      stderr: Buffer.from(''),
+    }
+
+    it('should merge the parent defaults into the child', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const parent = new CuimpHttp(mockCuimp, {
+        baseURL: 'https://api.example.com',
+        headers: { 'User-Agent': 'parent', Accept: 'application/json' },
+        extraCurlArgs: ['--compressed'],
+      })
+      const child = parent.create({ headers: { 'user-agent': 'child' }, extraCurlArgs: ['-v'] })
+
+      await child.get('/items')
+      const childArgs = mockRunBinary.mock.calls[0][1] as string[]
+      expect(childArgs).toContain('https://api.example.com/items')
+      expect(childArgs).toContain('user-agent: child')
+      expect(childArgs).not.toContain('User-Agent: parent')
+      expect(childArgs).toContain('Accept: application/json')
+      expect(childArgs).toEqual(expect.arrayContaining(['--compressed', '-v']))
+
+      await parent.get('/items')
+      const parentArgs = mockRunBinary.mock.calls[1][1] as string[]
+      expect(parentArgs).toContain('User-Agent: parent')
+      expect(parentArgs).not.toContain('-v')
+    })
+
+    it('should share the binary and cookie jar but not interceptors', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const parent = new CuimpHttp(mockCuimp, {}, true)
+      parent.interceptors.request.use(config => ({ ...config, headers: { 'X-Parent': '1' } }))
+      const child = parent.create()
+
+      expect(child.getCookieJar()).toBe(parent.getCookieJar())
+
+      await child.get('https://api.example.com/')
+      expect(mockRunBinary.mock.calls[0][0]).toBe('/usr/bin/curl-impersonate')
+      expect(mockRunBinary.mock.calls[0][1]).not.toContain('X-Parent: 1')
+
+      child.destroy()
+      expect(child.getCookieJar()).toBeNull()
+      expect(fs.existsSync(parent.getCookieJar()!.getFilePath())).toBe(true)
+      parent.destroy()
+    })
+  })
+
   describe('request', () => {
     it('should make GET request successfully', async () => {
       const mockResponse = {
@@ -481,22 +610,52 @@ describe('CuimpHttp', () => {
 
       await client.request(config)
 
-      // On Windows, data is passed via stdin; on other platforms, via command-line
-      const isWindows = process.platform === 'win32'
-      if (isWindows) {
-        expect(mockRunBinary).toHaveBeenCalledWith(
-          '/usr/bin/curl-impersonate',
-          expect.arrayContaining(['--data-binary', '@-']),
-          expect.objectContaining({
-            stdin: bufferData,
-          })
-        )
-      } else {
-        expect(mockRunBinary).toHaveBeenCalledWith(
-          '/usr/bin/curl-impersonate',
-          expect.arrayContaining(['--data-binary', 'binary data']),
-          expect.any(Object)
-        )
+      // Buffers are always passed via stdin so the bytes are sent unchanged
+      expect(mockRunBinary).toHaveBeenCalledWith(
+        '/usr/bin/curl-impersonate',
+        expect.arrayContaining(['--data-binary', '@-']),
+        expect.objectContaining({
+          stdin: bufferData,
+        })
+      )
+    })
+
+    it('should send non-UTF-8 Buffer data byte-exact', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+        stderr: Buffer.from(''),
+      })
+      const payload = Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0xff, 0xfe, 0x80])
+
+      await client.post('https://api.example.com/test', payload)
+
+      const [, args, opts] = mockRunBinary.mock.calls[0]
+      expect(args).not.toContain(payload.toString('utf8'))
+      expect(Buffer.compare(opts.stdin, payload)).toBe(0)
+    })
+
+    it('should send large, @-prefixed or NUL-containing text bodies via stdin', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+        stderr: Buffer.from(''),
+      })
+      const large = 'x'.repeat(64 * 1024)
+
+      await client.post('https://api.example.com/test', large)
+      await client.post('https://api.example.com/test', '@/etc/passwd')
+      await client.post('https://api.example.com/test', { big: large })
+      await client.post('https://api.example.com/test', 'a\0b')
+
+      for (const [call, expected] of [
+        [mockRunBinary.mock.calls[0], large],
+        [mockRunBinary.mock.calls[1], '@/etc/passwd'],
+        [mockRunBinary.mock.calls[2], JSON.stringify({ big: large })],
+        [mockRunBinary.mock.calls[3], 'a\0b'],
+      ]) {
+        expect(call[1]).toEqual(expect.arrayContaining(['--data-binary', '@-']))
+        expect(call[2].stdin).toBe(expected)
       }
     })
 
@@ -529,6 +688,21 @@ describe('CuimpHttp', () => {
       expect(response.status).toBe(200)
       expect(response.statusText).toBe('OK')
       expect(response.data).toEqual({ final: 'response' })
+      expect(response.url).toBe('https://api.example.com/redirect2')
+      expect(response.redirects).toEqual([
+        {
+          status: 302,
+          statusText: 'Found',
+          headers: { location: '/redirect1' },
+          url: 'https://api.example.com/test',
+        },
+        {
+          status: 301,
+          statusText: 'Moved',
+          headers: { location: '/redirect2' },
+          url: 'https://api.example.com/redirect1',
+        },
+      ])
     })
 
     it('should handle non-JSON response', async () => {
@@ -649,4 +823,1185 @@ describe('CuimpHttp', () => {
       }
     })
   })
+
+  describe('interceptors', () => {
+    const okResponse = {
+      exitCode: 0,
+      stdout: Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: application/json\r\n\r\n{"ok":true}'),
+      stderr: Buffer.from(''),
+    }
+
+    it('should rewrite the config before curl args are built', async () => {
+      mockRunBinary.mockResolvedValue(okResponse)
+      client.interceptors.request.use(config => ({
+        ...config,
+        headers: { ...config.headers, Authorization: 'Bearer abc' },
+      }))
+
+      await client.get('https://api.example.com/test')
+
+      expect(mockRunBinary).toHaveBeenCalledWith(
+        '/usr/bin/curl-impersonate',
+        expect.arrayContaining(['-H', 'Authorization: Bearer abc']),
+        expect.any(Object)
+      )
+    })
+
+    it('should run handlers in registration order and support eject', async () => {
+      mockRunBinary.mockResolvedValue(okResponse)
+      const calls: string[] = []
+      client.interceptors.request.use(config => {
+        calls.push('first')
+        return config
+      })
+      const id = client.interceptors.request.use(config => {
+        calls.push('ejected')
+        return config
+      })
+      client.interceptors.request.use(config => {
+        calls.push('third')
+        return Promise.resolve(config)
+      })
+      client.interceptors.request.eject(id)
+
+      await client.get('https://api.example.com/test')
+
+      expect(calls).toEqual(['first', 'third'])
+      expect(client.interceptors.request.size).toBe(2)
+    })
+
+    it('should transform the response', async () => {
+      mockRunBinary.mockResolvedValue(okResponse)
+      client.interceptors.response.use(response => ({ ...response, statusText: 'Intercepted' }))
+
+      const response = await client.get('https://api.example.com/test')
+
+      expect(response.statusText).toBe('Intercepted')
+      expect(response.data).toEqual({ ok: true })
+    })
+
+    it('should let response interceptors recover from a CurlError', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: CurlExitCode.COULDNT_CONNECT,
+        stdout: Buffer.from(''),
+        stderr: Buffer.from('curl: (7) Failed to connect'),
+      })
+      const seen: unknown[] = []
+      client.interceptors.response.use(undefined, error => {
+        seen.push(error)
+        return {
+          status: 599,
+          statusText: 'Recovered',
+          headers: CuimpHeaders.from(),
+          data: null,
+          rawBody: Buffer.alloc(0),
+          request: { url: '', method: 'GET', headers: {}, command: '' },
+        }
+      })
+
+      const response = await client.get('https://api.example.com/test')
+
+      expect(seen[0]).toBeInstanceOf(CurlError)
+      expect(response.status).toBe(599)
+    })
+
+    it('should apply interceptors to requestStream', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, args: string[], opts: any) => {
+        expect(args).toContain('X-Trace: 1')
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\nchunk'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+      client.interceptors.request.use(config => ({ ...config, headers: { 'X-Trace': '1' } }))
+      client.interceptors.response.use(response => ({ ...response, statusText: 'Streamed' }))
+
+      const response = await client.requestStream({ url: 'https://api.example.com/stream' })
+
+      expect(response.status).toBe(200)
+      expect(response.statusText).toBe('Streamed')
+    })
+  })
+
+  describe('retry', () => {
+    const ok = {
+      exitCode: 0,
+      stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+      stderr: Buffer.from(''),
+    }
+
+    it('should retry retryable statuses and report attempts', async () => {
+      mockRunBinary
+        .mockResolvedValueOnce({
+          exitCode: CurlExitCode.HTTP_RETURNED_ERROR,
+          stdout: Buffer.from('HTTP/1.1 503 Service Unavailable\r\nRetry-After: 0\r\n\r\n'),
+          stderr: Buffer.from(''),
+        })
+        .mockResolvedValueOnce(ok)
+
+      const response = await client.get('https://api.example.com/test', {
+        retry: { attempts: 3, delay: 0 },
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.attempts).toBe(2)
+      expect(mockRunBinary).toHaveBeenCalledTimes(2)
+    })
+
+    it('should retry retryable curl errors and rethrow when attempts run out', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: CurlExitCode.COULDNT_CONNECT,
+        stdout: Buffer.from(''),
+        stderr: Buffer.from('curl: (7) Failed to connect'),
+      })
+
+      await expect(
+        client.get('https://api.example.com/test', { retry: { attempts: 3, delay: 0 } })
+      ).rejects.toBeInstanceOf(CurlError)
+      expect(mockRunBinary).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry POST by default', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: CurlExitCode.COULDNT_CONNECT,
+        stdout: Buffer.from(''),
+        stderr: Buffer.from(''),
+      })
+
+      await expect(
+        client.post('https://api.example.com/test', 'x', { retry: { attempts: 3, delay: 0 } })
+      ).rejects.toBeInstanceOf(CurlError)
+      expect(mockRunBinary).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use the retry policy from client defaults', async () => {
+      const retryingClient = new CuimpHttp(mockCuimp, { retry: { attempts: 2, delay: 0 } })
+      mockRunBinary
+        .mockResolvedValueOnce({
+          exitCode: CurlExitCode.RECV_ERROR,
+          stdout: Buffer.from(''),
+          stderr: Buffer.from(''),
+        })
+        .mockResolvedValueOnce(ok)
+
+      const response = await retryingClient.get('https://api.example.com/test')
+
+      expect(response.attempts).toBe(2)
+    })
+  })
+
+  describe('validateStatus', () => {
+    const notFound = {
+      exitCode: CurlExitCode.HTTP_RETURNED_ERROR,
+      stdout: Buffer.from(
+        'HTTP/1.1 404 Not Found\r\nContent-Type: application/json\r\n\r\n{"error":"missing"}'
+      ),
+      stderr: Buffer.from(''),
+    }
+
+    it('should resolve any status when validateStatus is null', async () => {
+      mockRunBinary.mockResolvedValue(notFound)
+
+      const response = await client.get('https://api.example.com/missing', {
+        validateStatus: null,
+      })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should reject non-2xx statuses by default with CuimpHttpError carrying the response', async () => {
+      mockRunBinary.mockResolvedValue(notFound)
+
+      const error = await client.get('https://api.example.com/missing').catch(err => err)
+
+      expect(error).toBeInstanceOf(CuimpHttpError)
+      expect(error.status).toBe(404)
+      expect(error.message).toBe('Request failed with status code 404')
+      expect(error.response.data).toEqual({ error: 'missing' })
+      expect(error.response.headers['content-type']).toBe('application/json')
+      expect(error.response.request.command).toContain('https://api.example.com/missing')
+    })
+
+    it('should allow null to disable a default validateStatus', async () => {
+      const strictClient = new CuimpHttp(mockCuimp, { validateStatus: status => status < 400 })
+      mockRunBinary.mockResolvedValue(notFound)
+
+      await expect(strictClient.get('https://api.example.com/missing')).rejects.toBeInstanceOf(
+        CuimpHttpError
+      )
+      const response = await strictClient.get('https://api.example.com/missing', {
+        validateStatus: null,
+      })
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('timings', () => {
+    const metrics =
+      '\n__CUIMP_METRICS_START__{"time_namelookup":0.002,"time_connect":0.01,"time_appconnect":0.03,' +
+      '"time_starttransfer":0.05,"time_redirect":0,"time_total":0.06,"remote_ip":"127.0.0.1",' +
+      '"remote_port":443,"http_version":"2","size_download":2,"size_upload":0,"speed_download":33,' +
+      '"num_redirects":0,"url_effective":"https://api.example.com/test"}__CUIMP_METRICS_END__\n'
+
+    it('should request a write-out block and expose timings on the response', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/2 200\r\ncontent-type: application/json\r\n\r\n{}'),
+        stderr: Buffer.from(metrics),
+      })
+
+      const response = await client.get('https://api.example.com/test')
+
+      expect(mockRunBinary.mock.calls[0][1]).toContain('--write-out')
+      expect(response.data).toEqual({})
+      expect(response.timings?.total).toBe(60)
+      expect(response.timings?.tls).toBe(30)
+      expect(response.meta?.remoteIp).toBe('127.0.0.1')
+      expect(response.meta?.httpVersion).toBe('2')
+    })
+
+    it('should keep the metrics block out of CurlError messages', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: CurlExitCode.COULDNT_CONNECT,
+        stdout: Buffer.from(''),
+        stderr: Buffer.from('curl: (7) Failed to connect' + metrics),
+      })
+
+      const error = await client.get('https://api.example.com/test').catch(err => err)
+
+      expect(error).toBeInstanceOf(CurlError)
+      expect(error.message).not.toContain('__CUIMP_METRICS')
+    })
+
+    it('should not add --write-out when the caller already uses it', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+        stderr: Buffer.from(''),
+      })
+
+      await client.get('https://api.example.com/test', { extraCurlArgs: ['-w', '%{http_code}'] })
+
+      const args: string[] = mockRunBinary.mock.calls[0][1]
+      expect(args.filter(a => a === '--write-out' || a === '-w')).toEqual(['-w'])
+    })
+  })
+
+  describe('multipart bodies', () => {
+    const ok = {
+      exitCode: 0,
+      stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+      stderr: Buffer.from(''),
+    }
+
+    it('should send a MultipartBody through stdin with a boundary content type', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const form = new MultipartBody('test-boundary').append('name', 'cuimp')
+
+      await client.post('https://api.example.com/upload', form)
+
+      const [, args, opts] = mockRunBinary.mock.calls[0]
+      expect(args).toEqual(
+        expect.arrayContaining([
+          '--data-binary',
+          '@-',
+          '-H',
+          'Content-Type: multipart/form-data; boundary=test-boundary',
+        ])
+      )
+      expect(opts.stdin.toString()).toBe(
+        '--test-boundary\r\nContent-Disposition: form-data; name="name"\r\n\r\ncuimp\r\n' +
+          '--test-boundary--\r\n'
+      )
+    })
+
+    it('should accept a WHATWG FormData', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const form = new FormData()
+      form.append('field', 'value')
+      form.append('file', new Blob(['hello'], { type: 'text/plain' }), 'hello.txt')
+
+      await client.post('https://api.example.com/upload', form)
+
+      const [, args, opts] = mockRunBinary.mock.calls[0]
+      const contentType = args.find((a: string) =>
+        a.startsWith('Content-Type: multipart/form-data')
+      )
+      expect(contentType).toMatch(/boundary=/)
+      const body = opts.stdin.toString()
+      expect(body).toContain('name="file"; filename="hello.txt"\r\nContent-Type: text/plain')
+      expect(body).toContain('\r\n\r\nhello\r\n')
+    })
+
+    it('should pipe file and stream parts to curl without buffering them', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-multipart-'))
+      const filePath = path.join(dir, 'report.txt')
+      fs.writeFileSync(filePath, 'report')
+      const form = new MultipartBody('test-boundary')
+        .appendFile('report', filePath)
+        .append('log', Readable.from([Buffer.from('line')]), { filename: 'log.txt' })
+
+      try {
+        await client.post('https://api.example.com/upload', form)
+
+        const [, args, opts] = mockRunBinary.mock.calls[0]
+        expect(args).toEqual(expect.arrayContaining(['-X', 'POST', '-T', '-']))
+        expect(args).toContain('Content-Type: multipart/form-data; boundary=test-boundary')
+        expect(args).toContain('Expect:')
+        expect(args).not.toContain('--data-binary')
+        expect(Buffer.isBuffer(opts.stdin)).toBe(false)
+
+        const chunks: Buffer[] = []
+        for await (const chunk of opts.stdin as AsyncIterable<Buffer>) chunks.push(chunk)
+        const body = Buffer.concat(chunks).toString()
+        expect(body).toContain(
+          'filename="report.txt"\r\nContent-Type: text/plain\r\n\r\nreport\r\n'
+        )
+        expect(body).toContain('filename="log.txt"')
+        expect(body.endsWith('--test-boundary--\r\n')).toBe(true)
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('should send file parts with a Content-Length instead of chunked', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-multipart-'))
+      const filePath = path.join(dir, 'report.txt')
+      fs.writeFileSync(filePath, 'report')
+      const form = new MultipartBody('test-boundary')
+        .append('title', 'Q3')
+        .appendFile('report', filePath)
+
+      try {
+        await client.put('https://api.example.com/upload', form)
+
+        const [, args, opts] = mockRunBinary.mock.calls[0]
+        const chunks: Buffer[] = []
+        for await (const chunk of opts.stdin as AsyncIterable<Buffer>) chunks.push(chunk)
+        const body = Buffer.concat(chunks)
+
+        expect(args).toEqual(expect.arrayContaining(['-X', 'PUT', '--data-binary', '@-']))
+        expect(args).toContain(`Content-Length: ${body.length}`)
+        expect(args).toContain('Expect:')
+        expect(args).not.toContain('-T')
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('should not retry bodies with stream parts', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 503 Service Unavailable\r\n\r\n'),
+        stderr: Buffer.from(''),
+      })
+      const form = new MultipartBody().append('file', Readable.from([Buffer.from('x')]), {
+        filename: 'x.bin',
+      })
+
+      const response = await client.put('https://api.example.com/upload', form, {
+        retry: { attempts: 3, delay: 0 },
+        validateStatus: null,
+      })
+
+      expect(response.status).toBe(503)
+      expect(mockRunBinary).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('streaming request bodies', () => {
+    const ok = {
+      exitCode: 0,
+      stdout: Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}'),
+      stderr: Buffer.from(''),
+    }
+
+    const drain = async (stdin: AsyncIterable<Uint8Array>): Promise<string> => {
+      const chunks: Buffer[] = []
+      for await (const chunk of stdin) chunks.push(Buffer.from(chunk))
+      return Buffer.concat(chunks).toString()
+    }
+
+    it('should pipe a Readable body through stdin with -T -', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const body = Readable.from([Buffer.from('a'), Buffer.from('b')])
+
+      await client.post('https://api.example.com/upload', body)
+
+      const [, args, opts] = mockRunBinary.mock.calls[0]
+      expect(args).toEqual(expect.arrayContaining(['-X', 'POST', '-T', '-']))
+      expect(args).toContain('Content-Type: application/octet-stream')
+      expect(args).not.toContain('--data-binary')
+      expect(opts.stdin).toBe(body)
+    })
+
+    it('should accept web ReadableStreams and async iterables', async () => {
+      mockRunBinary.mockResolvedValue(ok)
+      const web = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('web'))
+          controller.close()
+        },
+      })
+      async function* gen() {
+        await Promise.resolve()
+        yield new TextEncoder().encode('gen')
+      }
+
+      await client.put('https://api.example.com/a', web)
+      await client.put('https://api.example.com/b', gen())
+
+      expect(await drain(mockRunBinary.mock.calls[0][2].stdin)).toBe('web')
+      expect(await drain(mockRunBinary.mock.calls[1][2].stdin)).toBe('gen')
+    })
+
+    it('should report upload progress as curl reads the body', async () => {
+      mockRunBinary.mockImplementation(
+        async (_bin: string, _args: string[], opts: { stdin: AsyncIterable<Uint8Array> }) => {
+          await drain(opts.stdin)
+          return ok
+        }
+      )
+      const progress: Array<{ loaded: number; total?: number }> = []
+
+      await client.post('https://api.example.com/upload', Readable.from([Buffer.from('12345')]), {
+        headers: { 'Content-Length': 5 },
+        onUploadProgress: p => progress.push(p),
+      })
+
+      expect(progress).toEqual([{ loaded: 5, total: 5 }])
+    })
+
+    it('should report upload progress for small text and JSON bodies', async () => {
+      mockRunBinary.mockImplementation(
+        async (_bin: string, _args: string[], opts: { stdin: AsyncIterable<Uint8Array> }) => {
+          await drain(opts.stdin)
+          return ok
+        }
+      )
+      const progress: Array<{ loaded: number; total?: number }> = []
+      const onUploadProgress = (p: { loaded: number; total?: number }) => progress.push(p)
+
+      await client.post('https://api.example.com/upload', 'hello', { onUploadProgress })
+      await client.post('https://api.example.com/upload', { a: 1 }, { onUploadProgress })
+
+      expect(mockRunBinary.mock.calls[0][1]).toEqual(
+        expect.arrayContaining(['--data-binary', '@-'])
+      )
+      expect(progress).toEqual([
+        { loaded: 5, total: 5 },
+        { loaded: 7, total: 7 },
+      ])
+    })
+
+    it('should not retry stream bodies', async () => {
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from('HTTP/1.1 503 Service Unavailable\r\n\r\n'),
+        stderr: Buffer.from(''),
+      })
+
+      await client.put('https://api.example.com/upload', Readable.from(['x']), {
+        retry: { attempts: 3, delay: 0 },
+        validateStatus: null,
+      })
+
+      expect(mockRunBinary).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('download', () => {
+    let dir: string
+    let dest: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-download-'))
+      dest = path.join(dir, 'file.bin')
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const serve = (head: string, chunks: string[], exitCode = 0) =>
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from(`${head}\r\n\r\n`))
+        for (const chunk of chunks) await opts.onStdout(Buffer.from(chunk))
+        return {
+          exitCode,
+          stderr: Buffer.from(exitCode ? 'curl: (18) transfer closed' : ''),
+        }
+      })
+
+    it('should write the body to disk and report progress', async () => {
+      serve('HTTP/1.1 200 OK\r\nContent-Length: 10', ['hello', 'world'])
+      const progress: Array<{ loaded: number; total?: number }> = []
+
+      const result = await client.download('https://example.com/file', dest, {
+        onProgress: ({ loaded, total }) => progress.push({ loaded, total }),
+        checksum: { expected: createHash('sha256').update('helloworld').digest('hex') },
+      })
+
+      expect(fs.readFileSync(dest, 'utf8')).toBe('helloworld')
+      expect(fs.existsSync(`${dest}.part`)).toBe(false)
+      expect(progress.at(-1)).toEqual({ loaded: 10, total: 10 })
+      expect(result).toMatchObject({ path: dest, size: 10, status: 200, resumed: false })
+      expect(result.checksum).toBe(createHash('sha256').update('helloworld').digest('hex'))
+    })
+
+    it('should resume an existing part file with a Range request', async () => {
+      fs.writeFileSync(`${dest}.part`, 'hello ')
+      serve('HTTP/1.1 206 Partial Content\r\nContent-Range: bytes 6-10/11', ['world'])
+
+      const result = await client.download('https://example.com/file', dest, { resume: true })
+
+      expect(mockRunBinaryStream.mock.calls[0][1]).toContain('Range: bytes=6-')
+      expect(fs.readFileSync(dest, 'utf8')).toBe('hello world')
+      expect(result).toMatchObject({ size: 11, resumed: true })
+    })
+
+    it('should start over when the server ignores the Range header', async () => {
+      fs.writeFileSync(`${dest}.part`, 'stale')
+      serve('HTTP/1.1 200 OK', ['fresh'])
+
+      const result = await client.download('https://example.com/file', dest, { resume: true })
+
+      expect(fs.readFileSync(dest, 'utf8')).toBe('fresh')
+      expect(result.resumed).toBe(false)
+    })
+
+    it('should throw CuimpHttpError for rejected statuses without writing the file', async () => {
+      serve('HTTP/1.1 404 Not Found\r\nContent-Type: application/json', ['{"error":"missing"}'])
+
+      const error = await client.download('https://example.com/file', dest).catch(err => err)
+
+      expect(error).toBeInstanceOf(CuimpHttpError)
+      expect(error.response.data).toEqual({ error: 'missing' })
+      expect(fs.readdirSync(dir)).toEqual([])
+    })
+
+    it('should delete the file on checksum mismatch', async () => {
+      serve('HTTP/1.1 200 OK', ['data'])
+
+      await expect(
+        client.download('https://example.com/file', dest, { checksum: { expected: 'deadbeef' } })
+      ).rejects.toThrow('Checksum mismatch')
+      expect(fs.readdirSync(dir)).toEqual([])
+    })
+
+    it('should clean up partial files on CurlError unless resuming', async () => {
+      serve('HTTP/1.1 200 OK', ['partial'], CurlExitCode.PARTIAL_FILE)
+
+      await expect(client.download('https://example.com/file', dest)).rejects.toBeInstanceOf(
+        CurlError
+      )
+      expect(fs.readdirSync(dir)).toEqual([])
+
+      await expect(
+        client.download('https://example.com/file', dest, { resume: true })
+      ).rejects.toBeInstanceOf(CurlError)
+      expect(fs.readFileSync(`${dest}.part`, 'utf8')).toBe('partial')
+    })
+  })
+
+  describe('stream', () => {
+    it('should resolve on headers with a Readable body and apply backpressure', async () => {
+      let producerDone = false
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/plain\r\n\r\n'))
+        await opts.onStdout(Buffer.alloc(64 * 1024, 'a'))
+        await opts.onStdout(Buffer.alloc(64 * 1024, 'b'))
+        producerDone = true
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const response = await client.stream({ url: 'https://api.example.com/big' })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('content-type')).toBe('text/plain')
+      expect(response.body).toBeInstanceOf(Readable)
+      await new Promise(r => setTimeout(r, 20))
+      expect(producerDone).toBe(false)
+
+      let size = 0
+      for await (const chunk of response.body) size += (chunk as Buffer).length
+      expect(size).toBe(128 * 1024)
+      expect(producerDone).toBe(true)
+    })
+
+    it('should run response interceptors on the headers before resolving', async () => {
+      let signal: AbortSignal | undefined
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        signal = opts.signal
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\nbody'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+      const seen: string[] = []
+      const id = client.interceptors.response.use(response => {
+        seen.push(response.request.url)
+        return { ...response, status: 299, statusText: 'Intercepted' }
+      })
+
+      const response = await client.stream({ url: 'https://api.example.com/a' })
+
+      expect(response.status).toBe(299)
+      expect(response.statusText).toBe('Intercepted')
+      expect(seen).toEqual(['https://api.example.com/a'])
+      let text = ''
+      for await (const chunk of response.body) text += String(chunk)
+      expect(text).toBe('body')
+      expect(seen).toHaveLength(1)
+
+      client.interceptors.response.eject(id)
+      client.interceptors.response.use(() => {
+        throw new Error('blocked')
+      })
+      await expect(client.stream({ url: 'https://api.example.com/b' })).rejects.toThrow('blocked')
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should expose the body as a web ReadableStream', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\nhello web'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const response = await client.stream({ url: 'https://api.example.com/' })
+
+      expect(await new Response(response.toWeb()).text()).toBe('hello web')
+    })
+
+    it('should emit errors after the headers on the body', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\npartial'))
+        return { exitCode: CurlExitCode.PARTIAL_FILE, stderr: Buffer.from('curl: (18)') }
+      })
+
+      const response = await client.stream({ url: 'https://api.example.com/' })
+      const read = async () => {
+        for await (const _chunk of response.body) {
+          // consume
+        }
+      }
+
+      await expect(read()).rejects.toBeInstanceOf(CurlError)
+    })
+
+    it('should abort the transfer when the body is destroyed', async () => {
+      let signal: AbortSignal | undefined
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        signal = opts.signal
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\nstart'))
+        await new Promise(r => opts.signal.addEventListener('abort', r))
+        throw new Error('Request aborted')
+      })
+
+      const response = await client.stream({ url: 'https://api.example.com/' })
+      response.body.destroy()
+      await new Promise(r => setTimeout(r, 0))
+
+      expect(signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('response decoding', () => {
+    const respond = (raw: Buffer) =>
+      mockRunBinary.mockResolvedValue({ exitCode: 0, stdout: raw, stderr: Buffer.from('') })
+
+    it('should decode text using the charset from the headers', async () => {
+      respond(
+        Buffer.concat([
+          Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/plain; charset=windows-1251\r\n\r\n'),
+          Buffer.from([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]),
+        ])
+      )
+
+      const response = await client.get('https://api.example.com/ru')
+
+      expect(response.data).toBe('Привет')
+    })
+
+    it('should return raw bytes with responseType buffer', async () => {
+      respond(Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: application/json\r\n\r\n{"a":1}'))
+
+      const response = await client.get<Buffer>('https://api.example.com/', {
+        responseType: 'buffer',
+      })
+
+      expect(Buffer.isBuffer(response.data)).toBe(true)
+      expect(response.data.toString()).toBe('{"a":1}')
+    })
+
+    it('should throw CuimpParseError for invalid JSON when configured', async () => {
+      respond(Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: application/json\r\n\r\n{oops'))
+
+      await expect(
+        client.get('https://api.example.com/', { jsonParseError: 'throw' })
+      ).rejects.toBeInstanceOf(CuimpParseError)
+    })
+
+    it('should keep the error body of a rejected status as text', async () => {
+      respond(
+        Buffer.from('HTTP/1.1 502 Bad Gateway\r\nContent-Type: application/json\r\n\r\n<html>')
+      )
+
+      const error = (await client
+        .get('https://api.example.com/', {
+          jsonParseError: 'throw',
+          validateStatus: status => status < 400,
+        })
+        .catch((e: unknown) => e)) as CuimpHttpError
+      expect(error).toBeInstanceOf(CuimpHttpError)
+      expect(error.response.data).toBe('<html>')
+    })
+  })
+
+  describe('validate', () => {
+    interface User {
+      id: number
+      name: string
+    }
+
+    const userSchema: StandardSchemaV1<unknown, User> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async value => {
+          await Promise.resolve()
+          const data = value as Partial<User>
+          return typeof data?.id === 'number' && typeof data.name === 'string'
+            ? { value: { id: data.id, name: data.name } }
+            : { issues: [{ message: 'Expected a number', path: [{ key: 'id' }] }] }
+        },
+      },
+    }
+
+    const respond = (body: string, status = '200 OK') =>
+      mockRunBinary.mockResolvedValue({
+        exitCode: 0,
+        stdout: Buffer.from(`HTTP/1.1 ${status}\r\nContent-Type: application/json\r\n\r\n${body}`),
+        stderr: Buffer.from(''),
+      })
+
+    it('should return the output of a Standard Schema', async () => {
+      respond('{"id":1,"name":"Ada","extra":true}')
+
+      const response = await client.get('https://api.example.com/user', { validate: userSchema })
+
+      expect(response.data).toEqual({ id: 1, name: 'Ada' })
+    })
+
+    it('should throw CuimpValidationError with the response and issues', async () => {
+      respond('{"id":"1"}')
+
+      const error = (await client
+        .get('https://api.example.com/user', { validate: userSchema })
+        .catch((e: unknown) => e)) as CuimpValidationError
+      expect(error).toBeInstanceOf(CuimpValidationError)
+      expect(error.message).toBe('Response validation failed: id: Expected a number')
+      expect(error.issues).toHaveLength(1)
+      expect(error.response.status).toBe(200)
+      expect(error.response.data).toEqual({ id: '1' })
+    })
+
+    it('should accept type guards and parse functions', async () => {
+      respond('{"id":2,"name":"Grace"}')
+      const isUser = (data: unknown): data is User =>
+        typeof (data as User).id === 'number' && typeof (data as User).name === 'string'
+
+      const guarded = await client.get('https://api.example.com/user', { validate: isUser })
+      expect(guarded.data.name).toBe('Grace')
+
+      const parsed = await client.get('https://api.example.com/user', {
+        validate: data => (data as User).name.toUpperCase(),
+      })
+      expect(parsed.data).toBe('GRACE')
+
+      await expect(
+        client.get('https://api.example.com/user', { validate: () => false })
+      ).rejects.toBeInstanceOf(CuimpValidationError)
+      await expect(
+        client.get('https://api.example.com/user', {
+          validate: () => {
+            throw new Error('nope')
+          },
+        })
+      ).rejects.toThrow('Response validation failed: nope')
+    })
+
+    it('should not validate responses rejected by validateStatus', async () => {
+      respond('{"error":"missing"}', '404 Not Found')
+      const validate = vi.fn(() => true)
+
+      await expect(
+        client.get('https://api.example.com/user', {
+          validate,
+          validateStatus: status => status < 400,
+        })
+      ).rejects.toBeInstanceOf(CuimpHttpError)
+      expect(validate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('ndjson', () => {
+    it('should yield one value per line as the body streams', async () => {
+      let calledArgs: string[] = []
+      mockRunBinaryStream.mockImplementation(async (_bin: string, args: string[], opts: any) => {
+        calledArgs = args
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\n{"id":1}\n{"id"'))
+        await opts.onStdout(Buffer.from(':2}\n{"id":3}'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const values: unknown[] = []
+      for await (const value of client.ndjson<{ id: number }>({
+        url: 'https://api.example.com/feed',
+      })) {
+        values.push(value)
+      }
+
+      expect(values).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+      expect(calledArgs).toContain('Accept: application/x-ndjson, application/jsonl')
+    })
+
+    it('should keep an Accept header set by the call or the client defaults', async () => {
+      const calls: string[][] = []
+      mockRunBinaryStream.mockImplementation(async (_bin: string, args: string[], opts: any) => {
+        calls.push(args)
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\n{}\n'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+      const jsonClient = new CuimpHttp(mockCuimp, { headers: { accept: 'application/json' } })
+
+      for await (const _value of jsonClient.ndjson({ url: 'https://api.example.com/feed' })) {
+        // drain
+      }
+      for await (const _value of client.ndjson({
+        url: 'https://api.example.com/feed',
+        headers: { ACCEPT: 'text/plain' },
+      })) {
+        // drain
+      }
+
+      expect(calls[0]).toContain('accept: application/json')
+      expect(calls[1]).toContain('ACCEPT: text/plain')
+      for (const args of calls) {
+        expect(args.join(' ')).not.toContain('application/x-ndjson')
+      }
+    })
+
+    it('should stop the transfer when the loop exits early', async () => {
+      let signal: AbortSignal | undefined
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        signal = opts.signal
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\n1\n2\n'))
+        await new Promise(r => opts.signal.addEventListener('abort', r))
+        throw new Error('Request aborted')
+      })
+
+      for await (const value of client.ndjson({ url: 'https://api.example.com/feed' })) {
+        if (value === 1) break
+      }
+      await new Promise(r => setTimeout(r, 0))
+
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should throw CuimpHttpError for a rejected status', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(
+          Buffer.from(
+            'HTTP/1.1 503 Service Unavailable\r\nContent-Type: application/json\r\n\r\n{"error":"busy"}'
+          )
+        )
+        return { exitCode: 22, stderr: Buffer.from('') }
+      })
+
+      const consume = async () => {
+        for await (const _value of client.ndjson({ url: 'https://api.example.com/feed' })) {
+          // consume
+        }
+      }
+
+      const error = (await consume().catch((e: unknown) => e)) as CuimpHttpError
+      expect(error).toBeInstanceOf(CuimpHttpError)
+      expect(error.status).toBe(503)
+      expect(error.response.data).toEqual({ error: 'busy' })
+    })
+
+    it('should surface parse errors with the line number', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\n{"a":1}\nnot json\n'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const consume = async () => {
+        for await (const _value of client.ndjson({ url: 'https://api.example.com/feed' })) {
+          // consume
+        }
+      }
+
+      await expect(consume()).rejects.toMatchObject({ name: 'CuimpParseError', line: 2 })
+    })
+  })
+
+  describe('eventSource', () => {
+    it('should dispatch events and reconnect with Last-Event-ID', async () => {
+      const calls: string[][] = []
+      mockRunBinaryStream.mockImplementation(async (_bin: string, args: string[], opts: any) => {
+        calls.push(args)
+        await opts.onStdout(
+          Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/event-stream\r\n\r\nretry: 5\n\n')
+        )
+        const id = calls.length
+        await opts.onStdout(Buffer.from(`id: ${id}\nevent: tick\ndata: t${id}\n\ndata: m${id}\n\n`))
+        if (id === 2) source.close()
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const source = client.eventSource('https://api.example.com/events')
+      const seen: string[] = []
+      source.addEventListener('open', () => seen.push('open'))
+      source.addEventListener('tick', event => seen.push((event as MessageEvent<string>).data))
+      source.onmessage = event => seen.push(event.data)
+
+      await vi.waitFor(() => expect(source.readyState).toBe(2))
+
+      expect(calls).toHaveLength(2)
+      expect(seen).toEqual(['open', 't1', 'm1', 'open', 't2', 'm2'])
+      expect(source.readyState).toBe(2)
+      expect(source.lastEventId).toBe('2')
+      expect(calls[0]).toContain('Accept: text/event-stream')
+      expect(calls[0]).toContain('--no-buffer')
+      expect(calls[0]).not.toContain('Last-Event-ID: 1')
+      expect(calls[1]).toContain('Last-Event-ID: 1')
+    })
+
+    it('should yield events from the async iterator and close on break', async () => {
+      let signal: AbortSignal | undefined
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        signal = opts.signal
+        await opts.onStdout(
+          Buffer.from(
+            'HTTP/1.1 200 OK\r\nContent-Type: text/event-stream; charset=utf-8\r\n\r\n' +
+              'data: a\n\nevent: custom\ndata: b\n\ndata: c\n\n'
+          )
+        )
+        await new Promise(r => opts.signal.addEventListener('abort', r))
+        throw new Error('Request aborted')
+      })
+
+      const source = client.eventSource('https://api.example.com/events')
+      const received: string[] = []
+      for await (const event of source) {
+        received.push(`${event.type}:${event.data}`)
+        if (received.length === 2) break
+      }
+
+      expect(received).toEqual(['message:a', 'custom:b'])
+      expect(source.readyState).toBe(2)
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should fail without reconnecting on a non event-stream response', async () => {
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 404 Not Found\r\n\r\nnope'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const source = client.eventSource('https://api.example.com/missing', { retryDelay: 1 })
+      const errors: unknown[] = []
+      source.onerror = event => errors.push(event.error)
+
+      const consume = async () => {
+        for await (const _event of source) {
+          // consume
+        }
+      }
+
+      await expect(consume()).rejects.toThrow('status 404')
+      expect(errors).toHaveLength(1)
+      expect(source.readyState).toBe(2)
+      expect(mockRunBinaryStream).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep reconnecting and end its iterators when on* handlers throw', async () => {
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {})
+      let calls = 0
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        calls++
+        if (calls === 1) throw new CurlError(CurlExitCode.COULDNT_CONNECT, '')
+        await opts.onStdout(
+          Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/event-stream\r\n\r\ndata: a\n\n')
+        )
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const source = client.eventSource('https://api.example.com/events', {
+        retryDelay: 1,
+        maxRetries: 1,
+      })
+      const fail = () => {
+        throw new Error('handler bug')
+      }
+      source.onerror = fail
+      source.onopen = fail
+      source.onmessage = fail
+      const received: string[] = []
+      source.addEventListener('message', event => {
+        received.push((event as MessageEvent<string>).data)
+        source.close()
+      })
+
+      for await (const _event of source) {
+        // ends when the source closes
+      }
+
+      expect(calls).toBe(2)
+      expect(received).toEqual(['a'])
+      expect(source.readyState).toBe(2)
+      expect(emitWarning).toHaveBeenCalledTimes(3)
+      expect(emitWarning).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'handler bug' }),
+        'CuimpEventSourceHandlerWarning'
+      )
+    })
+
+    it('should give up after maxRetries consecutive failures', async () => {
+      mockRunBinaryStream.mockRejectedValue(new CurlError(CurlExitCode.COULDNT_CONNECT, ''))
+
+      const source = client.eventSource('https://api.example.com/events', {
+        retryDelay: 1,
+        maxRetries: 2,
+      })
+      const errors: unknown[] = []
+      source.addEventListener('error', event => errors.push(event))
+
+      for await (const _event of source) {
+        // ends when the source gives up
+      }
+
+      expect(mockRunBinaryStream).toHaveBeenCalledTimes(3)
+      expect(errors).toHaveLength(3)
+      expect(source.readyState).toBe(2)
+    })
+  })
+
+  describe('fetch', () => {
+    const serve = (raw: string, exitCode = 0) =>
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from(raw))
+        return { exitCode, stderr: Buffer.from('') }
+      })
+
+    it('should resolve with a WHATWG Response', async () => {
+      serve(
+        'HTTP/1.1 302 Found\r\nLocation: /final\r\n\r\n' +
+          'HTTP/1.1 201 Created\r\nSet-Cookie: a=1\r\nSet-Cookie: b=2\r\n' +
+          'Content-Type: application/json\r\n\r\n{"ok":true}'
+      )
+
+      const response = await client.fetch('https://api.example.com/start')
+
+      expect(response).toBeInstanceOf(Response)
+      expect(response.status).toBe(201)
+      expect(response.ok).toBe(true)
+      expect(response.url).toBe('https://api.example.com/final')
+      expect(response.redirected).toBe(true)
+      expect(response.headers.getSetCookie()).toEqual(['a=1', 'b=2'])
+      expect(await response.json()).toEqual({ ok: true })
+    })
+
+    it('should accept a Request with headers and body', async () => {
+      serve('HTTP/1.1 200 OK\r\n\r\nok')
+
+      const response = await client.fetch(
+        new Request('https://api.example.com/items', {
+          method: 'POST',
+          headers: { 'X-Test': '1' },
+        }),
+        { body: JSON.stringify({ a: 1 }), headers: { 'Content-Type': 'application/json' } }
+      )
+
+      const args: string[] = mockRunBinaryStream.mock.calls[0][1]
+      expect(args).toEqual(expect.arrayContaining(['-X', 'POST', '--data-binary', '{"a":1}']))
+      expect(args).toContain('content-type: application/json')
+      expect(await response.text()).toBe('ok')
+    })
+
+    it('should send small Request bodies with a length instead of streaming them', async () => {
+      serve('HTTP/1.1 200 OK\r\n\r\nok')
+
+      await client.fetch(
+        new Request('https://api.example.com/items', {
+          method: 'POST',
+          body: JSON.stringify({ a: 1 }),
+          headers: { 'Content-Type': 'application/json' },
+        })
+      )
+      await client.fetch(
+        new Request('https://api.example.com/items', {
+          method: 'PUT',
+          body: new Blob([Buffer.alloc(2 * 1024 * 1024, 1)]),
+        })
+      )
+
+      const [small, large] = mockRunBinaryStream.mock.calls
+      expect(small[1]).toEqual(expect.arrayContaining(['-X', 'POST', '--data-binary', '@-']))
+      expect(small[1]).not.toContain('-T')
+      expect(small[2].stdin.toString()).toBe('{"a":1}')
+      expect(large[1]).toEqual(expect.arrayContaining(['-T', '-']))
+      let received = 0
+      for await (const chunk of large[2].stdin as AsyncIterable<Uint8Array>) {
+        received += chunk.byteLength
+      }
+      expect(received).toBe(2 * 1024 * 1024)
+    })
+
+    it('should not follow redirects in manual mode', async () => {
+      serve('HTTP/1.1 302 Found\r\nLocation: /next\r\n\r\n')
+
+      const response = await client.fetch('https://api.example.com/a', { redirect: 'manual' })
+
+      expect(response.status).toBe(302)
+      expect(mockRunBinaryStream.mock.calls[0][1]).not.toContain('--location')
+    })
+
+    it('should reject redirects in error mode', async () => {
+      serve('HTTP/1.1 301 Moved\r\nLocation: /next\r\n\r\n')
+
+      await expect(
+        client.fetch('https://api.example.com/a', { redirect: 'error' })
+      ).rejects.toBeInstanceOf(TypeError)
+    })
+
+    it('should reject network errors with a TypeError caused by the CurlError', async () => {
+      mockRunBinaryStream.mockResolvedValue({
+        exitCode: CurlExitCode.COULDNT_RESOLVE_HOST,
+        stderr: Buffer.from('curl: (6) Could not resolve host'),
+      })
+
+      const error = await client.fetch('https://nope.invalid/').catch(err => err)
+
+      expect(error).toBeInstanceOf(TypeError)
+      expect(error.cause).toBeInstanceOf(CurlError)
+    })
+
+    it('should resolve on headers and stream the body as it arrives', async () => {
+      let finish!: () => void
+      const finished = new Promise<void>(r => (finish = r))
+      mockRunBinaryStream.mockImplementation(async (_bin: string, _args: string[], opts: any) => {
+        await opts.onStdout(Buffer.from('HTTP/1.1 200 OK\r\n\r\nfirst,'))
+        await finished
+        await opts.onStdout(Buffer.from('second'))
+        return { exitCode: 0, stderr: Buffer.from('') }
+      })
+
+      const response = await client.fetch('https://api.example.com/slow')
+      const text = response.text()
+      finish()
+
+      expect(await text).toBe('first,second')
+    })
+  })
 })
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { getLatestRelease } from '../../src/helpers/connector'
+import { getLatestRelease, getReleaseChecksum } from '../../src/helpers/connector'
 
 describe('getLatestRelease', () => {
   const originalFetch = global.fetch
@@ -40,9 +40,60 @@ describe('getLatestRelease', () => {
     await expect(getLatestRelease()).rejects.toThrow('No stable release found')
   })
 
+  it('reads the latest tag from a mirror', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve('v1.2.2\n'),
+    })
+
+    await expect(getLatestRelease('https://mirror.local/ci/{tag}/{asset}')).resolves.toBe('v1.2.2')
+    expect(global.fetch).toHaveBeenCalledWith('https://mirror.local/ci/latest/VERSION')
+  })
+
   it('throws on GitHub API error', async () => {
     global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 500 })
 
     await expect(getLatestRelease()).rejects.toThrow('GitHub API error: 500')
   })
 })
+
+describe('getReleaseChecksum', () => {
+  const originalFetch = global.fetch
+  const asset = 'curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz'
+  const hash = 'ab'.repeat(32)
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('reads the hash for the asset from a SHA256SUMS file', async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            assets: [
+              { name: asset, browser_download_url: 'https://example.com/archive' },
+              { name: 'SHA256SUMS', browser_download_url: 'https://example.com/sums' },
+            ],
+          }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(`${'cd'.repeat(32)}  other.tar.gz\n${hash} *${asset}\n`),
+      })
+
+    await expect(getReleaseChecksum('v1.2.2', asset)).resolves.toBe(hash)
+    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('/releases/tags/v1.2.2'))
+  })
+
+  it('returns null when the release publishes no checksums', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ assets: [{ name: asset, browser_download_url: 'x' }] }),
+    })
+
+    await expect(getReleaseChecksum('v1.2.2', asset)).resolves.toBeNull()
+  })
+})
@@ -329,6 +329,101 @@ describe('Cuimp', () => {
     })
   })
 
+  describe('ensurePathFor', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true)
+      mockFs.statSync.mockReturnValue({ isFile: () => true, mode: 0o755 } as any)
+    })
+
+    it('should resolve and cache a binary per descriptor', async () => {
+      mockParseDescriptor.mockImplementation((descriptor: CuimpDescriptor) =>
+        Promise.resolve({
+          binaryPath: `/bin/curl_${descriptor.browser}${descriptor.version}`,
+          isDownloaded: false,
+        })
+      )
+
+      const [chrome, chromeAgain, safari] = await Promise.all([
+        cuimp.ensurePathFor({ browser: 'chrome', version: '136' }),
+        cuimp.ensurePathFor({ browser: 'chrome', version: '136' }),
+        cuimp.ensurePathFor({ browser: 'safari', version: '2601' }),
+      ])
+
+      expect(chrome).toBe('/bin/curl_chrome136')
+      expect(chromeAgain).toBe('/bin/curl_chrome136')
+      expect(safari).toBe('/bin/curl_safari2601')
+      expect(mockParseDescriptor).toHaveBeenCalledTimes(2)
+      expect(cuimp.getBinaryPath()).toBe('')
+    })
+
+    it('should keep the core platform, architecture and binary source for each target', async () => {
+      mockParseDescriptor.mockResolvedValue({
+        binaryPath: '/bin/curl_safari2601',
+        isDownloaded: false,
+      })
+      const core = new Cuimp({
+        descriptor: { browser: 'chrome', version: '136', platform: 'linux', architecture: 'arm64' },
+        binarySource: 'https://mirror.example/{tag}/{asset}',
+      })
+
+      await core.ensurePathFor({ browser: 'safari', version: '2601' })
+
+      expect(mockParseDescriptor).toHaveBeenCalledWith(
+        expect.objectContaining({
+          browser: 'safari',
+          version: '2601',
+          platform: 'linux',
+          architecture: 'arm64',
+        }),
+        expect.anything(),
+        true,
+        'https://mirror.example/{tag}/{asset}'
+      )
+    })
+
+    it('should look up other targets next to a custom binary path', async () => {
+      mockParseDescriptor.mockResolvedValue({
+        binaryPath: '/opt/ci/curl_firefox135',
+        isDownloaded: false,
+      })
+      const core = new Cuimp({ path: '/opt/ci/curl_chrome136' })
+
+      await core.ensurePathFor({ browser: 'firefox' })
+
+      expect(mockParseDescriptor).toHaveBeenCalledWith(
+        expect.objectContaining({ browser: 'firefox' }),
+        expect.anything(),
+        true,
+        '/opt/ci'
+      )
+    })
+
+    it('should keep the binary info of each descriptor', async () => {
+      mockParseDescriptor.mockResolvedValue({
+        binaryPath: '/bin/curl_chrome146',
+        isDownloaded: false,
+        impersonateTarget: 'chrome146',
+        impersonateBinary: '/bin/curl-impersonate',
+      })
+
+      await expect(cuimp.ensureBinaryFor({ browser: 'chrome', version: '146' })).resolves.toEqual(
+        expect.objectContaining({ impersonateBinary: '/bin/curl-impersonate' })
+      )
+    })
+
+    it('should retry a descriptor whose resolution failed', async () => {
+      mockParseDescriptor.mockRejectedValueOnce(new Error('offline')).mockResolvedValue({
+        binaryPath: '/bin/curl_firefox135',
+        isDownloaded: true,
+      })
+
+      await expect(cuimp.ensurePathFor({ browser: 'firefox' })).rejects.toThrow('offline')
+      await expect(cuimp.ensurePathFor({ browser: 'firefox' })).resolves.toBe(
+        '/bin/curl_firefox135'
+      )
+    })
+  })
+
   describe('download', () => {
     it('should download binary without verification', async () => {
       const mockBinaryInfo = {
@@ -341,7 +436,7 @@ describe('Cuimp', () => {
       const result = await cuimp.download()
 
       expect(result).toEqual(mockBinaryInfo)
-      expect(mockParseDescriptor).toHaveBeenCalledWith({}, expect.any(Object), true)
+      expect(mockParseDescriptor).toHaveBeenCalledWith({}, expect.any(Object), true, undefined)
     })
 
     it('should download binary with descriptor', async () => {
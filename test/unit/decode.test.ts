@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { decodeBody, detectCharset, isJsonContentType } from '../../src/helpers/decode'
+import { CuimpParseError } from '../../src/types/cuimpErrors'
+
+// "こんにちは" in Shift_JIS
+const SHIFT_JIS_HELLO = Buffer.from([0x82, 0xb1, 0x82, 0xf1, 0x82, 0xc9, 0x82, 0xbf, 0x82, 0xcd])
+// "Привет" in windows-1251
+const CP1251_HELLO = Buffer.from([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2])
+
+describe('detectCharset', () => {
+  it('prefers a byte order mark, then the Content-Type charset', () => {
+    expect(detectCharset(Buffer.from([0xff, 0xfe, 0x41, 0x00]), 'text/plain; charset=utf-8')).toBe(
+      'utf-16le'
+    )
+    expect(detectCharset(Buffer.from('x'), 'text/html; charset="Shift_JIS"')).toBe('shift_jis')
+  })
+
+  it('reads HTML meta tags and XML declarations', () => {
+    expect(
+      detectCharset(Buffer.from('<html><head><meta charset="windows-1251">'), 'text/html')
+    ).toBe('windows-1251')
+    expect(
+      detectCharset(
+        Buffer.from('<meta http-equiv="Content-Type" content="text/html; charset=ISO-8859-1">')
+      )
+    ).toBe('iso-8859-1')
+    expect(detectCharset(Buffer.from('<?xml version="1.0" encoding="EUC-JP"?><a/>'))).toBe('euc-jp')
+  })
+
+  it('falls back to utf-8 for missing or unknown charsets', () => {
+    expect(detectCharset(Buffer.from('plain'))).toBe('utf-8')
+    expect(detectCharset(Buffer.from('plain'), 'text/plain; charset=x-made-up')).toBe('utf-8')
+  })
+})
+
+describe('isJsonContentType', () => {
+  it('matches JSON and +json media types only', () => {
+    expect(isJsonContentType('application/json; charset=utf-8')).toBe(true)
+    expect(isJsonContentType('application/problem+json')).toBe(true)
+    expect(isJsonContentType('application/vnd.api+json')).toBe(true)
+    expect(isJsonContentType('text/html')).toBe(false)
+    expect(isJsonContentType(undefined)).toBe(false)
+  })
+})
+
+describe('decodeBody', () => {
+  it('decodes text with the detected charset', () => {
+    expect(decodeBody(SHIFT_JIS_HELLO, 'text/plain; charset=Shift_JIS')).toBe('こんにちは')
+    const html = Buffer.concat([Buffer.from('<meta charset="windows-1251"><p>'), CP1251_HELLO])
+    expect(decodeBody(html, 'text/html')).toBe('<meta charset="windows-1251"><p>Привет')
+  })
+
+  it('parses +json types in auto mode and applies the reviver', () => {
+    const body = Buffer.from('{"title":"Not Found","status":404}')
+    expect(decodeBody(body, 'application/problem+json')).toEqual({
+      title: 'Not Found',
+      status: 404,
+    })
+    expect(
+      decodeBody(Buffer.from('{"at":"2024-01-02T00:00:00.000Z"}'), 'application/json', {
+        jsonReviver: (key, value) => (key === 'at' ? new Date(value as string) : value),
+      })
+    ).toEqual({ at: new Date('2024-01-02T00:00:00.000Z') })
+  })
+
+  it('honours an explicit responseType', () => {
+    const body = Buffer.from('{"a":1}')
+
+    expect(decodeBody(body, 'text/plain', { responseType: 'json' })).toEqual({ a: 1 })
+    expect(decodeBody(body, 'application/json', { responseType: 'text' })).toBe('{"a":1}')
+    expect(decodeBody(body, 'application/json', { responseType: 'buffer' })).toBe(body)
+    const arrayBuffer = decodeBody(body, undefined, { responseType: 'arraybuffer' })
+    expect(arrayBuffer).toBeInstanceOf(ArrayBuffer)
+    expect(Buffer.from(arrayBuffer as ArrayBuffer).toString()).toBe('{"a":1}')
+  })
+
+  it('falls back to text or throws on invalid JSON', () => {
+    const body = Buffer.from('<html>oops</html>')
+
+    expect(decodeBody(body, 'application/json')).toBe('<html>oops</html>')
+    expect(() => decodeBody(body, 'application/json', { jsonParseError: 'throw' })).toThrow(
+      CuimpParseError
+    )
+  })
+})
@@ -4,6 +4,7 @@ import {
   normalizeArchitecture,
   normalizeDescriptor,
   resolveBinaryTarget,
+  parseImpersonateTarget,
 } from '../../src/helpers/descriptorNormalize'
 
 describe('normalizePlatform', () => {
@@ -79,3 +80,22 @@ describe('resolveBinaryTarget', () => {
     expect(result.downloadPlatform).toBe('windows')
   })
 })
+
+describe('parseImpersonateTarget', () => {
+  it('parses browser, version and mobile suffix', () => {
+    expect(parseImpersonateTarget('chrome136')).toEqual({ browser: 'chrome', version: '136' })
+    expect(parseImpersonateTarget('Safari2601')).toEqual({ browser: 'safari', version: '2601' })
+    expect(parseImpersonateTarget('chrome133a')).toEqual({ browser: 'chrome', version: '133a' })
+    expect(parseImpersonateTarget('safari260_ios')).toEqual({
+      browser: 'safari',
+      version: '260',
+      variant: 'ios',
+    })
+    expect(parseImpersonateTarget('firefox')).toEqual({ browser: 'firefox' })
+  })
+
+  it('rejects unknown targets', () => {
+    expect(() => parseImpersonateTarget('opera100')).toThrow('Invalid impersonate target: opera100')
+    expect(() => parseImpersonateTarget('chrome1')).toThrow('Invalid impersonate target')
+  })
+})
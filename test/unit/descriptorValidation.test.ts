@@ -108,6 +108,18 @@ describe('validateDescriptor', () => {
       })
     })
 
+    it('should validate release tags', () => {
+      expect(() => validateDescriptor({ release: 'v1.2.2' })).not.toThrow()
+      expect(() => validateDescriptor({ release: '0.6.1' })).not.toThrow()
+      expect(() => validateDescriptor({ release: 'latest' })).toThrow(/Release must be/)
+    })
+
+    it('should validate mobile variants', () => {
+      expect(() => validateDescriptor({ variant: 'iOS' })).not.toThrow()
+      expect(() => validateDescriptor({ variant: 'android' })).not.toThrow()
+      expect(() => validateDescriptor({ variant: 'macos' })).toThrow(/Variant 'macos'/)
+    })
+
     it('should accept normalized iOS platform casing', () => {
       expect(() => validateDescriptor({ platform: 'iOS' })).not.toThrow()
     })
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { CuimpHeaders } from '../../src/helpers/headers'
+import { parseHttpHeaderBlock, parseHttpResponse } from '../../src/helpers/parser'
+
+describe('CuimpHeaders', () => {
+  const raw = [
+    'HTTP/1.1 200 OK',
+    'Content-Type: text/html',
+    'Set-Cookie: a=1; Path=/',
+    'Vary: Accept',
+    'Set-Cookie: b=2; HttpOnly',
+    'vary: Accept-Encoding',
+  ].join('\r\n')
+
+  it('keeps every value of repeated headers', () => {
+    const { headers } = parseHttpHeaderBlock(raw)
+
+    expect(headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2; HttpOnly'])
+    expect(headers.getAll('VARY')).toEqual(['Accept', 'Accept-Encoding'])
+    expect(headers.get('vary')).toBe('Accept, Accept-Encoding')
+    expect(headers.get('missing')).toBeUndefined()
+    expect(headers.has('Content-type')).toBe(true)
+  })
+
+  it('iterates in wire order with original casing', () => {
+    const { headers } = parseHttpHeaderBlock(raw)
+
+    expect([...headers]).toEqual([
+      ['Content-Type', 'text/html'],
+      ['Set-Cookie', 'a=1; Path=/'],
+      ['Vary', 'Accept'],
+      ['Set-Cookie', 'b=2; HttpOnly'],
+      ['vary', 'Accept-Encoding'],
+    ])
+    expect([...headers.keys()]).toHaveLength(5)
+  })
+
+  it('keeps the lowercase plain-object view (last value wins)', () => {
+    const { headers } = parseHttpHeaderBlock(raw)
+
+    expect(headers['content-type']).toBe('text/html')
+    expect(headers['set-cookie']).toBe('b=2; HttpOnly')
+    expect(Object.keys(headers)).toEqual(['content-type', 'set-cookie', 'vary'])
+    expect({ ...headers }).toEqual(headers.toObject())
+    expect(JSON.parse(JSON.stringify(headers))).toEqual({
+      'content-type': 'text/html',
+      'set-cookie': 'b=2; HttpOnly',
+      vary: 'Accept-Encoding',
+    })
+  })
+
+  it('does not let header names shadow methods', () => {
+    const headers = CuimpHeaders.from([['Get', 'x']])
+
+    expect(typeof headers.get).toBe('function')
+    expect(headers.get('get')).toBe('x')
+  })
+
+  it('accepts a plain object', () => {
+    const headers = new CuimpHeaders({ 'X-Test': '1' })
+
+    expect(headers.get('x-test')).toBe('1')
+  })
+
+  it('is used for parsed responses', () => {
+    const res = parseHttpResponse(Buffer.from(`${raw}\r\n\r\nbody`))
+
+    expect(res.headers).toBeInstanceOf(CuimpHeaders)
+    expect(res.headers.getSetCookie()).toHaveLength(2)
+    expect(res.body.toString()).toBe('body')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  impersonateArgs,
+  impersonateTargetFromPath,
+  resolveImpersonateCommand,
+  supportsImpersonateFlag,
+} from '../../src/helpers/impersonate'
+
+vi.mock('node:child_process', () => ({
+  execFile: vi.fn(),
+}))
+
+type ProbeCallback = (error: Error | null, stdout: string | null, stderr: string) => void
+
+// execFile calls back with the --help output (or an error when the binary fails to run)
+const probeOutput =
+  (stdout: string | null, error: Error | null = null) =>
+  (...args: unknown[]) => {
+    ;(args[args.length - 1] as ProbeCallback)(error, stdout, '')
+    return undefined as unknown as ReturnType<typeof execFile>
+  }
+
+describe('impersonateTargetFromPath', () => {
+  it('reads the target from wrapper script names', () => {
+    expect(impersonateTargetFromPath('/bin/curl_chrome136')).toBe('chrome136')
+    expect(impersonateTargetFromPath('/bin/curl_safari260_ios')).toBe('safari260_ios')
+    expect(impersonateTargetFromPath('/cuimp/curl_edge101.bat')).toBe('edge101')
+    expect(impersonateTargetFromPath('/bin/curl_ff133.sh')).toBe('ff133')
+  })
+
+  it('returns null for other binaries', () => {
+    expect(impersonateTargetFromPath('/usr/bin/curl')).toBeNull()
+    expect(impersonateTargetFromPath('/bin/curl-impersonate')).toBeNull()
+    expect(impersonateTargetFromPath('/bin/curl_chrome')).toBeNull()
+  })
+})
+
+describe('supportsImpersonateFlag', () => {
+  beforeEach(() => {
+    vi.mocked(execFile).mockReset()
+  })
+
+  it('probes the binary once and caches the answer', async () => {
+    vi.mocked(execFile).mockImplementation(probeOutput(' --impersonate <target>\n'))
+
+    await expect(
+      Promise.all([
+        supportsImpersonateFlag('/cache/a/curl-impersonate'),
+        supportsImpersonateFlag('/cache/a/curl-impersonate'),
+      ])
+    ).resolves.toEqual([true, true])
+    expect(execFile).toHaveBeenCalledTimes(1)
+    expect(execFile).toHaveBeenCalledWith(
+      '/cache/a/curl-impersonate',
+      ['--help', 'all'],
+      expect.objectContaining({ timeout: expect.any(Number) }),
+      expect.any(Function)
+    )
+  })
+
+  it('is false for builds without the flag or that fail to run', async () => {
+    vi.mocked(execFile).mockImplementationOnce(probeOutput(' --compressed\n'))
+    await expect(supportsImpersonateFlag('/cache/b/curl-impersonate')).resolves.toBe(false)
+
+    vi.mocked(execFile).mockImplementationOnce(probeOutput(null, new Error('ETIMEDOUT')))
+    await expect(supportsImpersonateFlag('/cache/c/curl-impersonate')).resolves.toBe(false)
+
+    vi.mocked(execFile).mockImplementationOnce(() => {
+      throw new Error('EACCES')
+    })
+    await expect(supportsImpersonateFlag('/cache/d/curl-impersonate')).resolves.toBe(false)
+  })
+})
+
+describe('resolveImpersonateCommand', () => {
+  beforeEach(() => {
+    vi.mocked(execFile).mockReset()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('returns the single binary and the target to pass with --impersonate', async () => {
+    vi.spyOn(fs, 'existsSync').mockReturnValue(true)
+    vi.mocked(execFile).mockImplementation(probeOutput(' --impersonate <target>\n'))
+
+    const binaryName = process.platform === 'win32' ? 'curl-impersonate.exe' : 'curl-impersonate'
+    await expect(
+      resolveImpersonateCommand(path.join('/cache/e', 'curl_firefox135'))
+    ).resolves.toEqual({
+      binaryPath: path.join('/cache/e', binaryName),
+      target: 'firefox135',
+    })
+    expect(impersonateArgs('firefox135')).toEqual(['--compressed', '--impersonate', 'firefox135'])
+  })
+
+  it('falls back (null) for old releases and missing binaries', async () => {
+    const existsSync = vi.spyOn(fs, 'existsSync').mockReturnValue(true)
+    vi.mocked(execFile).mockImplementation(probeOutput(' --compressed\n'))
+    await expect(
+      resolveImpersonateCommand(path.join('/cache/f', 'curl_chrome116'))
+    ).resolves.toBeNull()
+
+    existsSync.mockReturnValue(false)
+    await expect(
+      resolveImpersonateCommand(path.join('/cache/g', 'curl_chrome116'))
+    ).resolves.toBeNull()
+    await expect(resolveImpersonateCommand('/usr/bin/curl')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { readLockfile, sha256, verifyAssetIntegrity } from '../../src/helpers/integrity'
+import { getReleaseChecksum } from '../../src/helpers/connector'
+
+vi.mock('../../src/helpers/connector', () => ({
+  getReleaseChecksum: vi.fn(),
+}))
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+const asset = 'curl-impersonate-v1.2.2.x86_64-linux-gnu.tar.gz'
+const archive = Buffer.from('archive bytes')
+
+describe('verifyAssetIntegrity', () => {
+  let dir: string
+  let lockfile: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getReleaseChecksum).mockResolvedValue(null)
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-lock-'))
+    lockfile = path.join(dir, 'cuimp.lock.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('accepts an archive matching the published checksum', async () => {
+    vi.mocked(getReleaseChecksum).mockResolvedValue(sha256(archive))
+
+    await expect(
+      verifyAssetIntegrity(archive, { release: 'v1.2.2', assetName: asset, logger })
+    ).resolves.toBeUndefined()
+    expect(getReleaseChecksum).toHaveBeenCalledWith('v1.2.2', asset, undefined)
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  it('rejects an archive that does not match the published checksum', async () => {
+    vi.mocked(getReleaseChecksum).mockResolvedValue('0'.repeat(64))
+
+    await expect(
+      verifyAssetIntegrity(archive, { release: 'v1.2.2', assetName: asset, logger })
+    ).rejects.toThrow(`Checksum mismatch for ${asset}`)
+  })
+
+  it('records the hash in a new lockfile and enforces it afterwards', async () => {
+    vi.mocked(getReleaseChecksum).mockResolvedValueOnce(sha256(archive))
+    await verifyAssetIntegrity(archive, {
+      release: 'v1.2.2',
+      assetName: asset,
+      lockfile,
+      createLockfile: true,
+      logger,
+    })
+
+    expect(readLockfile(lockfile)).toEqual({
+      release: 'v1.2.2',
+      assets: { [asset]: sha256(archive) },
+    })
+
+    await expect(
+      verifyAssetIntegrity(Buffer.from('tampered'), {
+        release: 'v1.2.2',
+        assetName: asset,
+        lockfile,
+        logger,
+      })
+    ).rejects.toThrow(/Checksum mismatch .*from .*cuimp\.lock\.json/)
+  })
+
+  it('leaves the lockfile unchanged when the published checksum cannot be fetched', async () => {
+    const other = 'curl-impersonate-v1.2.2.aarch64-linux-gnu.tar.gz'
+    const contents = JSON.stringify({ release: 'v1.2.2', assets: { [other]: 'a'.repeat(64) } })
+    fs.writeFileSync(lockfile, contents)
+    vi.mocked(getReleaseChecksum).mockRejectedValue(new Error('API rate limit exceeded'))
+
+    await verifyAssetIntegrity(archive, { release: 'v1.2.2', assetName: asset, lockfile, logger })
+
+    expect(fs.readFileSync(lockfile, 'utf8')).toBe(contents)
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining(`Not recording unverified ${asset}`)
+    )
+  })
+
+  it('records an unverified hash only with allowUnverified', async () => {
+    await verifyAssetIntegrity(archive, {
+      release: 'v1.2.2',
+      assetName: asset,
+      lockfile,
+      createLockfile: true,
+      logger,
+    })
+    expect(fs.existsSync(lockfile)).toBe(false)
+
+    await verifyAssetIntegrity(archive, {
+      release: 'v1.2.2',
+      assetName: asset,
+      lockfile,
+      createLockfile: true,
+      allowUnverified: true,
+      logger,
+    })
+    expect(readLockfile(lockfile)?.assets[asset]).toBe(sha256(archive))
+  })
+
+  it('does not create a lockfile unless asked to', async () => {
+    await verifyAssetIntegrity(archive, { release: 'v1.2.2', assetName: asset, lockfile, logger })
+
+    expect(fs.existsSync(lockfile)).toBe(false)
+  })
+
+  it('rejects a release other than the locked one', async () => {
+    fs.writeFileSync(lockfile, JSON.stringify({ release: 'v1.2.0', assets: {} }))
+
+    await expect(
+      verifyAssetIntegrity(archive, { release: 'v1.2.2', assetName: asset, lockfile, logger })
+    ).rejects.toThrow('pins curl-impersonate v1.2.0, but v1.2.2 was requested')
+  })
+
+  it('throws on an invalid lockfile', () => {
+    fs.writeFileSync(lockfile, '{"release": 1}')
+
+    expect(() => readLockfile(lockfile)).toThrow('Invalid lockfile')
+    expect(readLockfile(path.join(dir, 'missing.json'))).toBeNull()
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { withFileLock } from '../../src/helpers/lock'
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+
+const writeLock = (lockPath: string, pid: number, hostname = os.hostname()) =>
+  fs.writeFileSync(lockPath, JSON.stringify({ pid, hostname, createdAt: new Date().toISOString() }))
+
+describe('withFileLock', () => {
+  let tmp: string
+  let lockPath: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-lock-'))
+    lockPath = path.join(tmp, 'v1.2.2', 'x86_64-linux-gnu.lock')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true })
+  })
+
+  it('runs holders one at a time and removes the lock', async () => {
+    const events: string[] = []
+    const hold = (name: string) =>
+      withFileLock(
+        lockPath,
+        async () => {
+          events.push(`${name}:start`)
+          expect(fs.existsSync(lockPath)).toBe(true)
+          await new Promise(resolve => setTimeout(resolve, 30))
+          events.push(`${name}:end`)
+          return name
+        },
+        { pollMs: 5, logger }
+      )
+
+    await expect(Promise.all([hold('a'), hold('b')])).resolves.toEqual(['a', 'b'])
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end'])
+    expect(fs.existsSync(lockPath)).toBe(false)
+  })
+
+  it('releases the lock when the holder throws', async () => {
+    await expect(
+      withFileLock(lockPath, () => Promise.reject(new Error('extract failed')))
+    ).rejects.toThrow('extract failed')
+    expect(fs.existsSync(lockPath)).toBe(false)
+  })
+
+  it('takes over a lock left by a process that no longer runs', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeLock(lockPath, deadPid)
+
+    await expect(withFileLock(lockPath, () => Promise.resolve('ok'), { logger })).resolves.toBe(
+      'ok'
+    )
+    expect(logger.warn).toHaveBeenCalledWith(`Removing stale lock ${lockPath}`)
+  })
+
+  it('takes over a lock older than staleMs', async () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeLock(lockPath, process.pid, 'other-host')
+    const past = new Date(Date.now() - 60_000)
+    fs.utimesSync(lockPath, past, past)
+
+    await expect(
+      withFileLock(lockPath, () => Promise.resolve('ok'), { staleMs: 1000, logger })
+    ).resolves.toBe('ok')
+  })
+
+  it('never takes over a lock held by a live process on this host, however old', async () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeLock(lockPath, process.pid)
+    const past = new Date(Date.now() - 60 * 60_000)
+    fs.utimesSync(lockPath, past, past)
+
+    await expect(
+      withFileLock(lockPath, () => Promise.resolve(), { staleMs: 1000, pollMs: 5, timeoutMs: 30 })
+    ).rejects.toThrow('Timed out')
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  it('refreshes the lock while it is held', async () => {
+    await withFileLock(
+      lockPath,
+      async () => {
+        const past = new Date(Date.now() - 60_000)
+        fs.utimesSync(lockPath, past, past)
+        await new Promise(resolve => setTimeout(resolve, 60))
+        expect(Date.now() - fs.statSync(lockPath).mtimeMs).toBeLessThan(1000)
+      },
+      { staleMs: 30 }
+    )
+  })
+
+  it('lets only one waiter take over a stale lock', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeLock(lockPath, deadPid)
+    let holders = 0
+    let maxHolders = 0
+    const hold = () =>
+      withFileLock(
+        lockPath,
+        async () => {
+          maxHolders = Math.max(maxHolders, ++holders)
+          await new Promise(resolve => setTimeout(resolve, 20))
+          holders--
+        },
+        { pollMs: 5, logger }
+      )
+
+    await Promise.all([hold(), hold(), hold()])
+
+    expect(maxHolders).toBe(1)
+    expect(logger.warn).toHaveBeenCalledTimes(1)
+    expect(fs.readdirSync(path.dirname(lockPath))).toEqual([])
+  })
+
+  it('gives up after timeoutMs while a live process holds the lock', async () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeLock(lockPath, process.pid)
+    const fn = vi.fn(() => Promise.resolve())
+
+    await expect(withFileLock(lockPath, fn, { pollMs: 5, timeoutMs: 30 })).rejects.toThrow(
+      `Timed out after 30ms waiting for lock ${lockPath}`
+    )
+    expect(fn).not.toHaveBeenCalled()
+    expect(fs.existsSync(lockPath)).toBe(true)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { mergeConfig, mergeHeaders } from '../../src/helpers/mergeConfig'
+
+describe('mergeHeaders', () => {
+  it('lets later headers win regardless of case', () => {
+    expect(
+      mergeHeaders({ 'User-Agent': 'base', Accept: '*/*' }, undefined, { 'user-agent': 'child' })
+    ).toEqual({ Accept: '*/*', 'user-agent': 'child' })
+  })
+})
+
+describe('mergeConfig', () => {
+  it('merges headers and params and concatenates extraCurlArgs', () => {
+    const merged = mergeConfig(
+      {
+        baseURL: 'https://api.example.com',
+        headers: { Authorization: 'Bearer a', Accept: 'application/json' },
+        params: { page: 1, lang: 'en' },
+        extraCurlArgs: ['--compressed'],
+        timeout: 1000,
+      },
+      {
+        headers: { authorization: 'Bearer b' },
+        params: { page: 2 },
+        extraCurlArgs: ['--http2'],
+        timeout: 5000,
+      }
+    )
+
+    expect(merged).toEqual({
+      baseURL: 'https://api.example.com',
+      headers: { Accept: 'application/json', authorization: 'Bearer b' },
+      params: { page: 2, lang: 'en' },
+      extraCurlArgs: ['--compressed', '--http2'],
+      timeout: 5000,
+    })
+  })
+
+  it('keeps base values for undefined overrides but applies null', () => {
+    const validateStatus = (status: number) => status < 500
+    const merged = mergeConfig(
+      { proxy: 'http://p:8080', validateStatus },
+      {
+        proxy: undefined,
+        validateStatus: null,
+      }
+    )
+
+    expect(merged.proxy).toBe('http://p:8080')
+    expect(merged.validateStatus).toBeNull()
+  })
+
+  it('does not modify its inputs', () => {
+    const base = { headers: { A: '1' }, extraCurlArgs: ['-v'] }
+    mergeConfig(base, { headers: { B: '2' }, extraCurlArgs: ['-s'] })
+
+    expect(base).toEqual({ headers: { A: '1' }, extraCurlArgs: ['-v'] })
+  })
+})
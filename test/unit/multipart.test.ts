@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { MultipartBody, isMultipartData } from '../../src/helpers/multipart'
+
+describe('MultipartBody', () => {
+  const tempFiles: string[] = []
+
+  afterEach(() => {
+    for (const file of tempFiles.splice(0)) {
+      fs.rmSync(file, { force: true })
+    }
+  })
+
+  it('encodes text fields, buffers and per-part headers', async () => {
+    const body = new MultipartBody('b')
+      .append('title', 'hello')
+      .append('blob', Buffer.from([0xff, 0x00, 0x80]), {
+        filename: 'data.bin',
+        headers: { 'Content-Transfer-Encoding': 'binary' },
+      })
+
+    const buf = await body.toBuffer()
+
+    expect(buf.toString('latin1')).toBe(
+      '--b\r\nContent-Disposition: form-data; name="title"\r\n\r\nhello\r\n' +
+        '--b\r\nContent-Disposition: form-data; name="blob"; filename="data.bin"\r\n' +
+        'Content-Type: application/octet-stream\r\nContent-Transfer-Encoding: binary\r\n\r\n' +
+        '\xff\x00\x80\r\n' +
+        '--b--\r\n'
+    )
+    expect(body.contentType).toBe('multipart/form-data; boundary=b')
+  })
+
+  it('reads file parts and infers filename and content type', async () => {
+    const file = path.join(os.tmpdir(), `cuimp-multipart-${Date.now()}.json`)
+    tempFiles.push(file)
+    fs.writeFileSync(file, '{"a":1}')
+
+    const text = (await new MultipartBody('b').appendFile('doc', file).toBuffer()).toString()
+
+    expect(text).toContain(
+      `name="doc"; filename="${path.basename(file)}"\r\nContent-Type: application/json\r\n\r\n{"a":1}\r\n`
+    )
+  })
+
+  it('streams Readable parts and marks the body as not replayable', async () => {
+    const body = new MultipartBody('b').append('s', Readable.from(['ab', 'cd']), {
+      filename: 's.txt',
+      contentType: 'text/plain',
+    })
+
+    expect(body.replayable).toBe(false)
+    expect((await body.toBuffer()).toString()).toContain('text/plain\r\n\r\nabcd\r\n')
+  })
+
+  it('computes the encoded length without reading file parts', async () => {
+    const file = path.join(os.tmpdir(), `cuimp-multipart-${Date.now()}.txt`)
+    tempFiles.push(file)
+    fs.writeFileSync(file, 'héllo')
+    const body = new MultipartBody('b')
+      .append('title', 'ünïcode')
+      .append('bytes', new Uint8Array([1, 2, 3]))
+      .append('blob', new Blob(['xyz']), { filename: 'b.txt' })
+      .appendFile('doc', file)
+
+    expect(await body.contentLength()).toBe((await body.toBuffer()).length)
+    expect(
+      await new MultipartBody('b').append('s', Readable.from(['ab'])).contentLength()
+    ).toBeUndefined()
+  })
+
+  it('escapes quotes and newlines in names', async () => {
+    const text = (await new MultipartBody('b').append('a"b\nc', 'v').toBuffer()).toString()
+
+    expect(text).toContain('name="a%22b%0Ac"')
+  })
+
+  it('converts FormData entries', async () => {
+    const form = new FormData()
+    form.append('x', '1')
+    form.append('f', new Blob(['data']))
+
+    const text = (await MultipartBody.from(form).toBuffer()).toString()
+
+    expect(text).toContain('name="x"\r\n\r\n1\r\n')
+    expect(text).toContain('name="f"; filename="blob"\r\nContent-Type: application/octet-stream')
+    expect(isMultipartData(form)).toBe(true)
+    expect(isMultipartData({ x: 1 })).toBe(false)
+  })
+})
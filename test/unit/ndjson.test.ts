@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseNdjson } from '../../src/helpers/ndjson'
+import { CuimpParseError } from '../../src/types/cuimpErrors'
+
+async function* chunks(...parts: (string | Buffer)[]): AsyncGenerator<Buffer> {
+  for (const part of parts) {
+    await Promise.resolve()
+    yield Buffer.isBuffer(part) ? part : Buffer.from(part)
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = []
+  for await (const value of iterable) out.push(value)
+  return out
+}
+
+describe('parseNdjson', () => {
+  it('joins lines split across chunks', async () => {
+    const values = await collect(parseNdjson(chunks('{"a":1}\n{"b"', ':2}\n[3', ']\n')))
+
+    expect(values).toEqual([{ a: 1 }, { b: 2 }, [3]])
+  })
+
+  it('accepts CRLF, blank lines and a last line without newline', async () => {
+    const values = await collect(parseNdjson(chunks('1\r\n\r\n', '  \n"two"\r\n', 'null')))
+
+    expect(values).toEqual([1, 'two', null])
+  })
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"name":"Zoë"}\n')
+    const values = await collect(parseNdjson(chunks(bytes.subarray(0, 12), bytes.subarray(12))))
+
+    expect(values).toEqual([{ name: 'Zoë' }])
+  })
+
+  it('reports the line number of an invalid line', async () => {
+    const values: unknown[] = []
+    const run = async () => {
+      for await (const value of parseNdjson(chunks('{"ok":1}\n\n{oops}\n{"ok":2}\n'))) {
+        values.push(value)
+      }
+    }
+
+    const error = (await run().catch((e: unknown) => e)) as CuimpParseError
+    expect(error).toBeInstanceOf(CuimpParseError)
+    expect(error.line).toBe(3)
+    expect(error.text).toBe('{oops}')
+    expect(error.message).toMatch(/^Invalid JSON on line 3/)
+    expect(values).toEqual([{ ok: 1 }])
+  })
+})
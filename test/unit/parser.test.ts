@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import {
   parseDescriptor,
+  buildRedirectChain,
   createHttpResponseStreamParser,
+  extractResponseMetrics,
   parseHttpResponse,
 } from '../../src/helpers/parser'
 import { CuimpDescriptor, CuimpDescriptorInput } from '../../src/types/cuimpTypes'
@@ -9,6 +11,8 @@ import { CuimpDescriptor, CuimpDescriptorInput } from '../../src/types/cuimpType
 // Mock the connector module
 vi.mock('../../src/helpers/connector', () => ({
   getLatestRelease: vi.fn(),
+  getReleaseChecksum: vi.fn(),
+  getReleaseTargets: vi.fn(),
 }))
 
 // Mock fs module
@@ -21,6 +25,11 @@ vi.mock('fs', () => ({
     readdirSync: vi.fn(),
     chmodSync: vi.fn(),
     unlinkSync: vi.fn(),
+    renameSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    writeSync: vi.fn(),
+    closeSync: vi.fn(),
     constants: {
       S_IXUSR: 0o100,
       S_IXGRP: 0o010,
@@ -98,7 +107,7 @@ describe('parseDescriptor', () => {
       // Return true for binaries directory and binary path check after extraction
       if (
         typeof path === 'string' &&
-        (path.includes('.cuimp/binaries') || path.includes('curl-impersonate'))
+        (path.includes('.cuimp/cache') || path.includes('curl-impersonate'))
       ) {
         return true
       }
@@ -125,7 +134,7 @@ describe('parseDescriptor', () => {
       // Return true for binaries directory to allow creation
       if (
         typeof path === 'string' &&
-        path.includes('.cuimp/binaries') &&
+        path.includes('.cuimp/cache') &&
         !path.includes('curl-impersonate')
       ) {
         return true
@@ -134,7 +143,7 @@ describe('parseDescriptor', () => {
     })
     // Mock readdirSync to return files after extraction
     mockFs.readdirSync.mockImplementation((dir: string) => {
-      if (downloadStarted && typeof dir === 'string' && dir.includes('binaries')) {
+      if (downloadStarted && typeof dir === 'string' && dir.includes('.cuimp/cache')) {
         return ['curl-impersonate'] as any
       }
       throw new Error('ENOENT: no such file or directory')
@@ -171,7 +180,7 @@ describe('parseDescriptor', () => {
       }
       if (
         typeof path === 'string' &&
-        path.includes('.cuimp/binaries') &&
+        path.includes('.cuimp/cache') &&
         !path.includes('curl-impersonate')
       ) {
         return true
@@ -179,7 +188,7 @@ describe('parseDescriptor', () => {
       return false
     })
     mockFs.readdirSync.mockImplementation((dir: string) => {
-      if (downloadStarted && typeof dir === 'string' && dir.includes('binaries')) {
+      if (downloadStarted && typeof dir === 'string' && dir.includes('.cuimp/cache')) {
         return ['curl-impersonate'] as any
       }
       throw new Error('ENOENT: no such file or directory')
@@ -209,7 +218,7 @@ describe('parseDescriptor', () => {
       }
       if (
         typeof path === 'string' &&
-        path.includes('.cuimp/binaries') &&
+        path.includes('.cuimp/cache') &&
         !path.includes('curl-impersonate')
       ) {
         return true
@@ -217,7 +226,7 @@ describe('parseDescriptor', () => {
       return false
     })
     mockFs.readdirSync.mockImplementation((dir: string) => {
-      if (downloadStarted && typeof dir === 'string' && dir.includes('binaries')) {
+      if (downloadStarted && typeof dir === 'string' && dir.includes('.cuimp/cache')) {
         return ['curl-impersonate'] as any
       }
       throw new Error('ENOENT: no such file or directory')
@@ -304,7 +313,7 @@ describe('parseDescriptor', () => {
       }
       if (
         typeof path === 'string' &&
-        path.includes('.cuimp/binaries') &&
+        path.includes('.cuimp/cache') &&
         !path.includes('curl-impersonate')
       ) {
         return true
@@ -312,7 +321,7 @@ describe('parseDescriptor', () => {
       return false
     })
     mockFs.readdirSync.mockImplementation((dir: string) => {
-      if (downloadStarted && typeof dir === 'string' && dir.includes('binaries')) {
+      if (downloadStarted && typeof dir === 'string' && dir.includes('.cuimp/cache')) {
         return ['curl-impersonate'] as any
       }
       throw new Error('ENOENT: no such file or directory')
@@ -338,6 +347,211 @@ describe('parseDescriptor', () => {
     expect(result.isDownloaded).toBe(true)
     expect(result.version).toBe('1.0.0')
   })
+
+  describe('release pinning', () => {
+    const setupDownload = () => {
+      let downloadStarted = false
+      mockFs.existsSync.mockImplementation((path: string) => {
+        if (downloadStarted && typeof path === 'string' && path.includes('curl-impersonate')) {
+          return true
+        }
+        return typeof path === 'string' && path.includes('.cuimp/cache')
+      })
+      mockFs.readdirSync.mockImplementation((dir: string) => {
+        if (downloadStarted && typeof dir === 'string' && dir.includes('.cuimp/cache')) {
+          return ['curl-impersonate'] as any
+        }
+        throw new Error('ENOENT: no such file or directory')
+      })
+      mockFetch.mockImplementation(() => {
+        downloadStarted = true
+        return Promise.resolve({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        } as Response)
+      })
+    }
+
+    it('downloads the pinned release without looking up the latest one', async () => {
+      setupDownload()
+
+      const result = await parseDescriptor(
+        { browser: 'chrome', platform: 'linux', architecture: 'x64', release: '1.1.0' },
+        { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+      )
+
+      expect(mockGetLatestRelease).not.toHaveBeenCalled()
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/releases/download/v1.1.0/curl-impersonate-v1.1.0.')
+      )
+      expect(result.isDownloaded).toBe(true)
+    })
+
+    it('fails without extracting when the archive does not match the published checksum', async () => {
+      setupDownload()
+      const { getReleaseChecksum } = await import('../../src/helpers/connector')
+      const { extract } = await import('tar')
+      vi.mocked(getReleaseChecksum).mockResolvedValue('a'.repeat(64))
+
+      await expect(
+        parseDescriptor({
+          browser: 'chrome',
+          platform: 'linux',
+          architecture: 'x64',
+          release: 'v1.1.0',
+        })
+      ).rejects.toThrow(/Checksum mismatch for curl-impersonate-v1\.1\.0\./)
+      expect(extract).not.toHaveBeenCalled()
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('browser versions', () => {
+    const setupDownload = () => {
+      let downloadStarted = false
+      mockFs.existsSync.mockImplementation((path: string) => {
+        if (downloadStarted && typeof path === 'string' && path.endsWith('curl_chrome116')) {
+          return true
+        }
+        return (
+          typeof path === 'string' &&
+          path.includes('.cuimp/cache') &&
+          !path.includes('curl_') &&
+          !path.includes('curl-impersonate')
+        )
+      })
+      mockFetch.mockImplementation(() => {
+        downloadStarted = true
+        return Promise.resolve({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        } as Response)
+      })
+    }
+
+    it('downloads the release that ships the requested version', async () => {
+      setupDownload()
+      const { getReleaseTargets } = await import('../../src/helpers/connector')
+      mockGetLatestRelease.mockResolvedValue('v1.3.0')
+      vi.mocked(getReleaseTargets).mockResolvedValue(['chrome146'])
+
+      const result = await parseDescriptor(
+        { browser: 'chrome', version: '116', platform: 'linux', architecture: 'x64' },
+        { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/releases/download/v1.2.2/curl-impersonate-v1.2.2.')
+      )
+      expect(result.isDownloaded).toBe(true)
+      expect(result.binaryPath).toMatch(/\.cuimp\/cache\/v1\.2\.2\/.*\/curl_chrome116$/)
+      expect(result.version).toBe('116')
+    })
+
+    it('fails when the pinned release does not ship the requested version', async () => {
+      setupDownload()
+
+      await expect(
+        parseDescriptor({
+          browser: 'chrome',
+          version: '142',
+          release: 'v1.0.0',
+          platform: 'linux',
+          architecture: 'x64',
+        })
+      ).rejects.toThrow('curl-impersonate v1.0.0 does not ship chrome142')
+      expect(mockGetLatestRelease).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('concurrent downloads', () => {
+    it('shares one download between concurrent calls for the same release', async () => {
+      let downloadStarted = false
+      mockFs.existsSync.mockImplementation((path: string) => {
+        if (downloadStarted && typeof path === 'string' && path.includes('curl-impersonate')) {
+          return true
+        }
+        return typeof path === 'string' && path.includes('.cuimp/cache')
+      })
+      mockFs.readdirSync.mockImplementation(() => {
+        throw new Error('ENOENT: no such file or directory')
+      })
+      mockGetLatestRelease.mockResolvedValue('v1.0.0')
+      mockFetch.mockImplementation(() => {
+        downloadStarted = true
+        return Promise.resolve({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        } as Response)
+      })
+      const descriptor: CuimpDescriptor = {
+        browser: 'chrome',
+        platform: 'linux',
+        architecture: 'x64',
+        forceDownload: true,
+      }
+
+      const results = await Promise.all([
+        parseDescriptor(descriptor),
+        parseDescriptor(descriptor),
+        parseDescriptor(descriptor),
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFs.openSync).toHaveBeenCalledTimes(1)
+      expect(mockFs.openSync).toHaveBeenCalledWith(
+        expect.stringMatching(/\.cuimp\/cache\/v1\.0\.0\/x86_64-linux-(gnu|musl)\.lock$/),
+        'wx'
+      )
+      expect(new Set(results.map(result => result.binaryPath)).size).toBe(1)
+    })
+
+    it('extracts into a staging directory and renames it into place', async () => {
+      // Staging dirs left by a dead worker (PID above any pid_max) and a live one
+      mockFs.readdirSync.mockImplementation((dir: string) => {
+        if (!dir.endsWith('/v1.0.0')) throw new Error('ENOENT: no such file or directory')
+        return ['x86_64-linux-gnu', 'x86_64-linux-musl'].flatMap(triple => [
+          `.${triple}.tmp-4194305-1`,
+          `.${triple}.tmp-${process.pid}-2`,
+        ]) as any
+      })
+      let downloadStarted = false
+      mockFs.existsSync.mockImplementation((path: string) => {
+        if (downloadStarted && typeof path === 'string' && path.includes('curl-impersonate')) {
+          return true
+        }
+        return typeof path === 'string' && path.includes('.cuimp/cache')
+      })
+      mockGetLatestRelease.mockResolvedValue('v1.0.0')
+      mockFetch.mockImplementation(() => {
+        downloadStarted = true
+        return Promise.resolve({
+          ok: true,
+          arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        } as Response)
+      })
+      const { extract } = await import('tar')
+
+      await parseDescriptor({
+        browser: 'chrome',
+        platform: 'linux',
+        architecture: 'x64',
+        forceDownload: true,
+      })
+
+      const { cwd } = vi.mocked(extract).mock.calls[0][0] as { cwd: string }
+      const releaseDir = cwd.split('/').slice(0, -1).join('/')
+      const triple = cwd.split('/').pop()?.slice(1).split('.tmp-')[0]
+      const removed = mockFs.rmSync.mock.calls.map(([dir]: [string]) => dir)
+      expect(removed).toContain(`${releaseDir}/.${triple}.tmp-4194305-1`)
+      expect(removed).not.toContain(`${releaseDir}/.${triple}.tmp-${process.pid}-2`)
+      expect(cwd).toMatch(/\/\.x86_64-linux-(gnu|musl)\.tmp-\d+-\d+$/)
+      expect(mockFs.renameSync).toHaveBeenCalledWith(
+        cwd,
+        expect.stringMatching(/\.cuimp\/cache\/v1\.0\.0\/x86_64-linux-(gnu|musl)$/)
+      )
+    })
+  })
 })
 
 describe('createHttpResponseStreamParser', () => {
@@ -368,6 +582,44 @@ describe('createHttpResponseStreamParser', () => {
       expect(Buffer.concat(bodyChunks).toString()).toBe('HTTP/1.1 200 OK was the status line')
     })
 
+    it('should emit headers before finish when a short first body chunk cannot be a status line', async () => {
+      const events: string[] = []
+
+      const parser = createHttpResponseStreamParser({
+        onHeaders: info => {
+          events.push(`headers:${info.status}`)
+        },
+        onBody: chunk => {
+          events.push(`body:${chunk.toString()}`)
+        },
+      })
+
+      await parser.push(Buffer.from('HTTP/1.1 200 OK\r\n\r\ndata:'))
+      expect(events).toEqual(['headers:200', 'body:data:'])
+
+      await parser.push(Buffer.from('HTTP'))
+      await parser.finish()
+      expect(events).toEqual(['headers:200', 'body:data:', 'body:HTTP'])
+    })
+
+    it('should keep waiting while a short chunk may start another status line', async () => {
+      const headersReceived: any[] = []
+
+      const parser = createHttpResponseStreamParser({
+        onHeaders: info => {
+          headersReceived.push(info)
+        },
+      })
+
+      await parser.push(Buffer.from('HTTP/1.1 100 Continue\r\n\r\nHTTP/'))
+      expect(headersReceived).toHaveLength(0)
+
+      await parser.push(Buffer.from('1.1 201 Created\r\n\r\n'))
+      await parser.finish()
+      expect(headersReceived).toHaveLength(1)
+      expect(headersReceived[0].status).toBe(201)
+    })
+
     it('should handle header separator split across chunks', async () => {
       const bodyChunks: Buffer[] = []
       const headersReceived: any[] = []
@@ -575,3 +827,110 @@ describe('parseHttpResponse', () => {
     )
   })
 })
+
+describe('extractResponseMetrics', () => {
+  const block = (json: object) =>
+    `\n__CUIMP_METRICS_START__${JSON.stringify(json)}__CUIMP_METRICS_END__\n`
+
+  it('should parse timings and meta and strip the block from stderr', () => {
+    const stderr = Buffer.from(
+      'curl: (22) The requested URL returned error: 404' +
+        block({
+          time_namelookup: 0.001234,
+          time_connect: 0.01,
+          time_appconnect: 0.05,
+          time_starttransfer: 0.1,
+          time_redirect: 0,
+          time_total: 0.125,
+          remote_ip: '93.184.216.34',
+          remote_port: 443,
+          http_version: '2',
+          size_download: 1256,
+          size_upload: 0,
+          speed_download: 10048,
+          num_redirects: 1,
+          url_effective: 'https://example.com/final',
+        })
+    )
+
+    const result = extractResponseMetrics(stderr)
+
+    expect(result.timings).toEqual({
+      dns: 1.234,
+      connect: 10,
+      tls: 50,
+      firstByte: 100,
+      redirect: 0,
+      total: 125,
+    })
+    expect(result.meta).toEqual({
+      remoteIp: '93.184.216.34',
+      remotePort: 443,
+      httpVersion: '2',
+      bytesDownloaded: 1256,
+      bytesUploaded: 0,
+      downloadSpeed: 10048,
+      redirectCount: 1,
+      effectiveUrl: 'https://example.com/final',
+    })
+    expect(result.stderr.toString()).toBe('curl: (22) The requested URL returned error: 404')
+  })
+
+  it('should return stderr unchanged when no block is present', () => {
+    const stderr = Buffer.from('curl: (7) Failed to connect')
+    const result = extractResponseMetrics(stderr)
+    expect(result.timings).toBeUndefined()
+    expect(result.stderr).toBe(stderr)
+  })
+
+  it('should drop a malformed block without throwing', () => {
+    const result = extractResponseMetrics(
+      Buffer.from('\n__CUIMP_METRICS_START__{oops__CUIMP_METRICS_END__\n')
+    )
+    expect(result.timings).toBeUndefined()
+    expect(result.stderr.length).toBe(0)
+  })
+})
+
+describe('redirect chain', () => {
+  const chain = Buffer.from(
+    'HTTP/1.1 301 Moved Permanently\r\nLocation: https://example.com/a\r\nSet-Cookie: s=1\r\n\r\n' +
+      'HTTP/1.1 100 Continue\r\n\r\n' +
+      'HTTP/1.1 302 Found\r\nLocation: /b?x=1\r\n\r\n' +
+      'HTTP/1.1 200 OK\r\nContent-Type: text/plain\r\n\r\ndone'
+  )
+
+  it('should keep intermediate redirect blocks in parseHttpResponse', () => {
+    const result = parseHttpResponse(chain)
+    expect(result.status).toBe(200)
+    expect(result.body.toString()).toBe('done')
+    expect(result.redirects.map(r => r.status)).toEqual([301, 302])
+    expect(result.redirects[0].headers['set-cookie']).toBe('s=1')
+  })
+
+  it('should collect redirect blocks in the stream parser', async () => {
+    const parser = createHttpResponseStreamParser()
+    for (let i = 0; i < chain.length; i += 7) {
+      await parser.push(chain.subarray(i, i + 7))
+    }
+    await parser.finish()
+    expect(parser.response?.status).toBe(200)
+    expect(parser.redirects.map(r => r.status)).toEqual([301, 302])
+  })
+
+  it('should resolve hop URLs and the final URL', () => {
+    const { redirects, url } = buildRedirectChain(
+      'http://example.com/start',
+      parseHttpResponse(chain).redirects
+    )
+    expect(redirects.map(r => r.url)).toEqual(['http://example.com/start', 'https://example.com/a'])
+    expect(redirects[1].headers.location).toBe('/b?x=1')
+    expect(url).toBe('https://example.com/b?x=1')
+  })
+
+  it('should not report a final 3xx as a redirect hop', () => {
+    const result = parseHttpResponse(Buffer.from('HTTP/1.1 302 Found\r\nLocation: /next\r\n\r\n'))
+    expect(result.status).toBe(302)
+    expect(result.redirects).toEqual([])
+  })
+})
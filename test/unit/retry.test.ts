@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeBackoff,
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from '../../src/helpers/retry'
+import { CurlError, CurlExitCode } from '../../src/types/curlErrors'
+import { CuimpHeaders } from '../../src/helpers/headers'
+
+const response = (status: number, headers: Record<string, string> = {}) => ({
+  status,
+  statusText: '',
+  headers: CuimpHeaders.from(headers),
+  data: null,
+  rawBody: Buffer.alloc(0),
+  request: { url: 'https://example.com', method: 'GET' as const, headers: {}, command: '' },
+})
+
+describe('resolveRetryOptions', () => {
+  it('returns null when retries are disabled', () => {
+    expect(resolveRetryOptions(undefined)).toBeNull()
+    expect(resolveRetryOptions(false)).toBeNull()
+    expect(resolveRetryOptions(1)).toBeNull()
+  })
+
+  it('treats a number as max attempts and fills defaults', () => {
+    const options = resolveRetryOptions(4)
+    expect(options?.attempts).toBe(4)
+    expect(options?.methods).not.toContain('POST')
+    expect(options?.statusCodes).toContain(429)
+    expect(options?.exitCodes).toContain(CurlExitCode.COULDNT_CONNECT)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000)
+  })
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT')
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', now)).toBe(10000)
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0)
+  })
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
+
+describe('computeBackoff', () => {
+  it('grows exponentially and respects maxDelay', () => {
+    const options = resolveRetryOptions({ delay: 100, maxDelay: 500, jitter: false })!
+    expect(computeBackoff(1, options)).toBe(100)
+    expect(computeBackoff(2, options)).toBe(200)
+    expect(computeBackoff(3, options)).toBe(400)
+    expect(computeBackoff(4, options)).toBe(500)
+  })
+
+  it('keeps jittered delays between 50% and 100%', () => {
+    const options = resolveRetryOptions({ delay: 1000 })!
+    for (let i = 0; i < 20; i++) {
+      const delay = computeBackoff(1, options)
+      expect(delay).toBeGreaterThanOrEqual(500)
+      expect(delay).toBeLessThanOrEqual(1000)
+    }
+  })
+})
+
+describe('getRetryDelay', () => {
+  const options = resolveRetryOptions({ attempts: 3, delay: 100, jitter: false })!
+  const config = { url: 'https://example.com' }
+
+  it('retries retryable statuses and honours Retry-After', async () => {
+    await expect(
+      getRetryDelay(options, { attempt: 1, method: 'GET', config, response: response(503) })
+    ).resolves.toBe(100)
+    await expect(
+      getRetryDelay(options, {
+        attempt: 1,
+        method: 'GET',
+        config,
+        response: response(429, { 'retry-after': '2' }),
+      })
+    ).resolves.toBe(2000)
+  })
+
+  it('retries retryable curl exit codes only', async () => {
+    await expect(
+      getRetryDelay(options, {
+        attempt: 1,
+        method: 'GET',
+        config,
+        error: new CurlError(CurlExitCode.RECV_ERROR),
+      })
+    ).resolves.toBe(100)
+    await expect(
+      getRetryDelay(options, {
+        attempt: 1,
+        method: 'GET',
+        config,
+        error: new CurlError(CurlExitCode.COULDNT_RESOLVE_HOST),
+      })
+    ).resolves.toBeNull()
+  })
+
+  it('does not retry non-idempotent methods or exhausted attempts', async () => {
+    await expect(
+      getRetryDelay(options, { attempt: 1, method: 'POST', config, response: response(503) })
+    ).resolves.toBeNull()
+    await expect(
+      getRetryDelay(options, { attempt: 3, method: 'GET', config, response: response(503) })
+    ).resolves.toBeNull()
+  })
+
+  it('uses the custom shouldRetry predicate', async () => {
+    const custom = resolveRetryOptions({
+      attempts: 3,
+      delay: 10,
+      jitter: false,
+      shouldRetry: ({ response }) => response?.status === 418,
+    })!
+    await expect(
+      getRetryDelay(custom, { attempt: 1, method: 'POST', config, response: response(418) })
+    ).resolves.toBe(10)
+    await expect(
+      getRetryDelay(custom, { attempt: 1, method: 'GET', config, response: response(503) })
+    ).resolves.toBeNull()
+  })
+})
+
+describe('sleep', () => {
+  it('rejects when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const pending = sleep(10_000, controller.signal)
+    controller.abort()
+    await expect(pending).rejects.toThrow('Request aborted')
+  })
+})
@@ -3,6 +3,7 @@ import { runBinary } from '../../src/runner'
 import { spawn } from 'node:child_process'
 import fs from 'node:fs'
 import path from 'node:path'
+import { PassThrough } from 'node:stream'
 
 // Mock child_process
 vi.mock('node:child_process', () => ({
@@ -114,6 +115,33 @@ dir=\${0%/*}
     )
   })
 
+  it('should run the single binary with --impersonate when the binary info says so', async () => {
+    if (!mockPlatform('android')) {
+      return
+    }
+
+    const readFileSync = vi.spyOn(fs, 'readFileSync')
+
+    mockChildProcess.on.mockImplementation((event: string, callback: Function) => {
+      if (event === 'close') {
+        setTimeout(() => callback(0), 10)
+      }
+    })
+    mockChildProcess.stdout.on.mockImplementation(() => {})
+    mockChildProcess.stderr.on.mockImplementation(() => {})
+
+    await runBinary('/opt/cuimp/v1/curl_safari260_ios', ['https://example.com'], {
+      impersonate: { binaryPath: '/opt/cuimp/v1/curl-impersonate', target: 'safari260_ios' },
+    })
+
+    expect(readFileSync).not.toHaveBeenCalled()
+    expect(mockSpawn).toHaveBeenCalledWith(
+      '/opt/cuimp/v1/curl-impersonate',
+      ['--compressed', '--impersonate', 'safari260_ios', 'https://example.com'],
+      expect.objectContaining({ shell: false })
+    )
+  })
+
   it('should resolve with successful result', async () => {
     const mockStdout = Buffer.from('output data')
     const mockStderr = Buffer.from('error data')
@@ -1350,3 +1378,79 @@ dir=\${0%/*}
     })
   })
 })
+
+describe('runBinary stdin', () => {
+  const mockSpawn = vi.mocked(spawn)
+  let mockChildProcess: any
+  let closeChild: (code: number) => void
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockChildProcess = {
+      kill: vi.fn(() => closeChild(137)),
+      stdin: new PassThrough(),
+      stdout: { on: vi.fn() },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event: string, callback: (code: number) => void) => {
+        if (event === 'close') closeChild = callback
+      }),
+    }
+    mockSpawn.mockReturnValue(mockChildProcess)
+  })
+
+  const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = []
+    for await (const chunk of mockChildProcess.stdin) chunks.push(chunk as Buffer)
+    return Buffer.concat(chunks).toString()
+  }
+
+  it('should write Buffer stdin and end it', async () => {
+    const run = runBinary('/usr/bin/curl-impersonate', ['-T', '-'], { stdin: Buffer.from('abc') })
+
+    expect(await readStdin()).toBe('abc')
+    closeChild(0)
+    await expect(run).resolves.toMatchObject({ exitCode: 0 })
+    expect(mockSpawn).toHaveBeenCalledWith(
+      '/usr/bin/curl-impersonate',
+      ['-T', '-'],
+      expect.objectContaining({ stdio: ['pipe', 'pipe', 'pipe'] })
+    )
+  })
+
+  it('should pipe async iterable stdin', async () => {
+    async function* body() {
+      await Promise.resolve()
+      yield Buffer.from('chunk1,')
+      yield new TextEncoder().encode('chunk2')
+    }
+
+    const run = runBinary('/usr/bin/curl-impersonate', ['-T', '-'], { stdin: body() })
+
+    expect(await readStdin()).toBe('chunk1,chunk2')
+    closeChild(0)
+    await expect(run).resolves.toMatchObject({ exitCode: 0 })
+  })
+
+  it('should reject and kill curl when the body source fails', async () => {
+    async function* body() {
+      await Promise.resolve()
+      yield Buffer.from('partial')
+      throw new Error('source failed')
+    }
+
+    const run = runBinary('/usr/bin/curl-impersonate', ['-T', '-'], { stdin: body() })
+    mockChildProcess.stdin.resume()
+
+    await expect(run).rejects.toThrow('source failed')
+    expect(mockChildProcess.kill).toHaveBeenCalledWith('SIGKILL')
+  })
+
+  it('should ignore stdin errors after curl stops reading', async () => {
+    const run = runBinary('/usr/bin/curl-impersonate', ['-T', '-'], { stdin: 'data' })
+
+    mockChildProcess.stdin.emit('error', Object.assign(new Error('EPIPE'), { code: 'EPIPE' }))
+    closeChild(0)
+
+    await expect(run).resolves.toMatchObject({ exitCode: 0 })
+  })
+})
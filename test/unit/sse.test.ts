@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { SseParser, type CuimpServerEvent } from '../../src/helpers/sse'
+
+function parse(chunks: (string | Buffer)[], lastEventId = '') {
+  const events: CuimpServerEvent[] = []
+  const retries: number[] = []
+  const parser = new SseParser(
+    { onEvent: event => events.push(event), onRetry: ms => retries.push(ms) },
+    lastEventId
+  )
+  for (const chunk of chunks) parser.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  return { events, retries }
+}
+
+describe('SseParser', () => {
+  it('parses event, data, id and retry fields', () => {
+    const { events, retries } = parse([
+      ': comment\n',
+      'retry: 5000\n',
+      'event: update\nid: 7\ndata: first\ndata:  second\n\n',
+      'data: plain\n\n',
+    ])
+
+    expect(events).toEqual([
+      { type: 'update', data: 'first\n second', lastEventId: '7' },
+      { type: 'message', data: 'plain', lastEventId: '7' },
+    ])
+    expect(retries).toEqual([5000])
+  })
+
+  it('handles CRLF, CR and lines split across chunks', () => {
+    const { events } = parse(['data: a\r', '\n\r\nda', 'ta: b\r\rdata: c', '\n\n'])
+
+    expect(events.map(e => e.data)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('decodes UTF-8 split across chunks and strips a leading BOM', () => {
+    const bytes = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('data: héllo\n\n')])
+    const { events } = parse([bytes.subarray(0, 10), bytes.subarray(10)])
+
+    expect(events).toEqual([{ type: 'message', data: 'héllo', lastEventId: '' }])
+  })
+
+  it('ignores empty events, unknown fields and invalid retry values', () => {
+    const { events, retries } = parse(['event: ping\n\n', 'foo: bar\nretry: soon\n\n', 'data\n\n'])
+
+    expect(events).toEqual([{ type: 'message', data: '', lastEventId: '' }])
+    expect(retries).toEqual([])
+  })
+
+  it('keeps the initial last event ID and drops an unterminated event', () => {
+    const { events } = parse(['data: one\n\n', 'data: partial'], '41')
+
+    expect(events).toEqual([{ type: 'message', data: 'one', lastEventId: '41' }])
+  })
+})
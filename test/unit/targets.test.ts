@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  compareBrowserVersions,
+  listAvailableTargets,
+  parseBinaryName,
+  resolveTargetRelease,
+} from '../../src/helpers/targets'
+import { listInstalledBinaries } from '../../src/helpers/parser'
+import { getLatestRelease, getReleaseTargets } from '../../src/helpers/connector'
+
+vi.mock('../../src/helpers/connector', () => ({
+  getLatestRelease: vi.fn(),
+  getReleaseTargets: vi.fn(),
+}))
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+
+describe('parseBinaryName', () => {
+  it('parses wrapper names and target names', () => {
+    expect(parseBinaryName('curl_chrome136')).toEqual({
+      target: 'chrome136',
+      browser: 'chrome',
+      version: '136',
+    })
+    expect(parseBinaryName('curl_safari260_ios.bat')).toEqual({
+      target: 'safari260_ios',
+      browser: 'safari',
+      version: '260',
+      platform: 'ios',
+    })
+    expect(parseBinaryName('chrome133a')).toMatchObject({ browser: 'chrome', version: '133a' })
+  })
+
+  it('ignores other files', () => {
+    expect(parseBinaryName('curl-impersonate')).toBeNull()
+    expect(parseBinaryName('curl_ff91esr')).toBeNull()
+    expect(parseBinaryName('libcurl-impersonate.so')).toBeNull()
+  })
+})
+
+describe('compareBrowserVersions', () => {
+  it('compares numerically, then by suffix', () => {
+    const versions = ['136', '99', '133a', '133']
+    expect(versions.sort(compareBrowserVersions)).toEqual(['99', '133', '133a', '136'])
+  })
+})
+
+describe('target listings', () => {
+  let home: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-targets-'))
+    vi.spyOn(os, 'homedir').mockReturnValue(home)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(home, { recursive: true, force: true })
+  })
+
+  it('lists available targets and caches them for offline use', async () => {
+    vi.mocked(getLatestRelease).mockResolvedValue('v1.2.2')
+    vi.mocked(getReleaseTargets).mockResolvedValue([
+      'chrome120',
+      'safari260_ios',
+      'chrome136',
+      'ff91esr',
+    ])
+
+    const targets = await listAvailableTargets(logger)
+    expect(targets.map(t => t.target)).toEqual(['chrome136', 'chrome120', 'safari260_ios'])
+    expect(targets[2]).toEqual({
+      target: 'safari260_ios',
+      browser: 'safari',
+      version: '260',
+      platform: 'ios',
+      release: 'v1.2.2',
+    })
+
+    vi.mocked(getLatestRelease).mockRejectedValue(new Error('GitHub API error: 403'))
+    const offline = await listAvailableTargets(logger)
+    expect(offline).toEqual(targets)
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('GitHub API error: 403'))
+  })
+
+  it('throws when offline without a cached list', async () => {
+    vi.mocked(getLatestRelease).mockRejectedValue(new Error('fetch failed'))
+
+    await expect(listAvailableTargets(logger)).rejects.toThrow(
+      'Failed to list available targets: fetch failed'
+    )
+  })
+
+  it('lists installed wrapper binaries with their release', () => {
+    const binariesDir = path.join(home, '.cuimp', 'cache', 'v1.2.2', 'x86_64-linux-gnu')
+    fs.mkdirSync(binariesDir, { recursive: true })
+    for (const name of [
+      'curl_chrome120',
+      'curl_chrome136',
+      'curl_safari260_ios',
+      'curl-impersonate',
+    ]) {
+      fs.writeFileSync(path.join(binariesDir, name), '')
+    }
+    fs.writeFileSync(
+      path.join(binariesDir, 'manifest.json'),
+      JSON.stringify({ release: 'v1.2.2', platform: 'linux', architecture: 'x64' })
+    )
+
+    const installed = listInstalledBinaries().filter(entry => entry.path.startsWith(home))
+
+    expect(installed.map(entry => entry.target)).toEqual([
+      'chrome136',
+      'chrome120',
+      'safari260_ios',
+    ])
+    expect(installed[0]).toMatchObject({
+      browser: 'chrome',
+      version: '136',
+      path: path.join(binariesDir, 'curl_chrome136'),
+      release: 'v1.2.2',
+    })
+    expect(installed[2].platform).toBe('ios')
+  })
+})
+
+describe('resolveTargetRelease', () => {
+  let home: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'cuimp-targets-'))
+    vi.spyOn(os, 'homedir').mockReturnValue(home)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(home, { recursive: true, force: true })
+  })
+
+  it('uses the latest release when it ships the target', async () => {
+    vi.mocked(getLatestRelease).mockResolvedValue('v1.3.0')
+    vi.mocked(getReleaseTargets).mockResolvedValue(['chrome116', 'chrome146'])
+
+    await expect(resolveTargetRelease('chrome146', { logger })).resolves.toBe('v1.3.0')
+    await expect(resolveTargetRelease('chrome116', { logger })).resolves.toBe('v1.3.0')
+  })
+
+  it('falls back to the newest bundled release that ships the target', async () => {
+    vi.mocked(getLatestRelease).mockResolvedValue('v1.3.0')
+    vi.mocked(getReleaseTargets).mockResolvedValue(['chrome146'])
+
+    await expect(resolveTargetRelease('chrome116', { logger })).resolves.toBe('v1.2.2')
+    await expect(resolveTargetRelease('firefox135', { logger })).resolves.toBe('v1.2.2')
+  })
+
+  it('keeps the mobile suffix as part of the target', async () => {
+    vi.mocked(getLatestRelease).mockResolvedValue('v1.3.0')
+    vi.mocked(getReleaseTargets).mockResolvedValue(['safari260', 'safari2601'])
+
+    await expect(resolveTargetRelease('safari260', { logger })).resolves.toBe('v1.3.0')
+    await expect(resolveTargetRelease('safari260_ios', { logger })).resolves.toBe('v1.2.2')
+    await expect(resolveTargetRelease('safari2601_ios', { logger })).rejects.toThrow(
+      'No curl-impersonate release ships safari2601_ios. Known safari ios versions: 172, 180, 184, 260'
+    )
+  })
+
+  it('uses the bundled table offline and for mirrors', async () => {
+    vi.mocked(getLatestRelease).mockRejectedValue(new Error('fetch failed'))
+
+    await expect(resolveTargetRelease('safari184', { logger })).resolves.toBe('v1.2.2')
+    await expect(
+      resolveTargetRelease('chrome124', { mirror: 'https://mirror.local', logger })
+    ).resolves.toBe('v1.2.2')
+    expect(getLatestRelease).toHaveBeenCalledTimes(1)
+  })
+
+  it('lists the known versions when no release ships the target', async () => {
+    vi.mocked(getLatestRelease).mockResolvedValue('v1.3.0')
+    vi.mocked(getReleaseTargets).mockResolvedValue(['edge146'])
+
+    await expect(resolveTargetRelease('edge117', { logger })).rejects.toThrow(
+      'No curl-impersonate release ships edge117. Known edge versions: 101, 146'
+    )
+  })
+})